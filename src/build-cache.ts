@@ -0,0 +1,168 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import * as esbuild from "esbuild";
+
+import { ENTRY_NAMESPACE } from "./test-entry-point";
+import { VENDOR_NAMESPACE } from "./vendor";
+
+import type { BundleResult } from "./bundle";
+
+// Stands in for the entry point's directory in the cache. The single
+// bundle's entry point is in a different directory in every run, so it must
+// not be part of the key, and the cached outputs are moved to the new one.
+const ENTRY_DIR = "[karma-esbuild:entry]";
+
+interface CacheEntry {
+	inputs: Record<string, string>;
+	result: {
+		code: string;
+		map: BundleResult["map"];
+		outputs: Array<[string, string | { base64: string }]>;
+		metafile: BundleResult["metafile"];
+		warnings: BundleResult["warnings"];
+	};
+}
+
+// The options of plugins, which are part of the cache key. esbuild only
+// accepts a name and a setup function on plugins, and a changed setup
+// function doesn't show up in the key. Plugins without options of their own,
+// like the vendor and worker plugins, only depend on the esbuild options.
+const pluginKeys = new WeakMap<esbuild.Plugin, unknown>();
+
+export function setPluginKey<T extends esbuild.Plugin>(
+	plugin: T,
+	key: unknown,
+) {
+	pluginKeys.set(plugin, key);
+	return plugin;
+}
+
+function hash(contents: string | Buffer) {
+	return crypto.createHash("sha1").update(contents).digest("hex");
+}
+
+// Replaces every occurrence of the `from` directory in the JSON, including
+// in URLs and escaped strings.
+function relocate(json: string, from: string, to: string) {
+	const forms = (dir: string) => [
+		JSON.stringify(dir).slice(1, -1),
+		dir.replace(/\\/g, "/"),
+	];
+	const targets = forms(to);
+	forms(from).forEach((form, i) => {
+		json = json.split(form).join(targets[i]);
+	});
+	return json;
+}
+
+// BuildCache stores the result of a build on disk, so that the next Karma
+// process can reuse it. Results are keyed by the entry point's contents and
+// the esbuild options, and are only reused while every input of the build
+// still has the same contents.
+export class BuildCache {
+	private declare dir: string;
+
+	constructor(dir: string) {
+		this.dir = dir;
+	}
+
+	async read(file: string, config: esbuild.BuildOptions, source: string) {
+		let entry: CacheEntry;
+		try {
+			const key = this.key(file, config, source);
+			const json = await fs.readFile(
+				path.join(this.dir, `${key}.json`),
+				"utf8",
+			);
+			entry = JSON.parse(relocate(json, ENTRY_DIR, path.dirname(file)));
+		} catch {
+			return null;
+		}
+
+		for (const [input, expected] of Object.entries(entry.inputs)) {
+			try {
+				if (hash(await fs.readFile(input)) !== expected) return null;
+			} catch {
+				return null;
+			}
+		}
+
+		const { code, map, outputs, metafile, warnings } = entry.result;
+		return {
+			code,
+			map,
+			outputs: new Map(
+				outputs.map(([name, contents]): [string, string | Uint8Array] => [
+					path.join(path.dirname(file), name),
+					typeof contents === "string"
+						? contents
+						: Buffer.from(contents.base64, "base64"),
+				]),
+			),
+			metafile,
+			warnings,
+			errors: [],
+		};
+	}
+
+	async write(
+		file: string,
+		config: esbuild.BuildOptions,
+		source: string,
+		result: BundleResult,
+	) {
+		const { code, map, outputs, metafile, warnings } = result;
+		if (!metafile) return;
+
+		const inputs: CacheEntry["inputs"] = {};
+		for (const input of Object.keys(metafile.inputs)) {
+			// The entry point's source is part of the key, and the modules that
+			// load packages from the vendor bundle only depend on their path.
+			if (input.startsWith(`${ENTRY_NAMESPACE}:`)) continue;
+			if (input.startsWith(`${VENDOR_NAMESPACE}:`)) continue;
+			try {
+				inputs[input] = hash(await fs.readFile(input));
+			} catch {
+				// An input that isn't a file can't be checked, so the build can't
+				// be reused.
+				return;
+			}
+		}
+
+		const entry: CacheEntry = {
+			inputs,
+			result: {
+				code,
+				map,
+				outputs: Array.from(outputs, ([out, contents]) => [
+					path.relative(path.dirname(file), out),
+					typeof contents === "string"
+						? contents
+						: { base64: Buffer.from(contents).toString("base64") },
+				]),
+				metafile,
+				warnings,
+			},
+		};
+		const key = this.key(file, config, source);
+		const json = relocate(JSON.stringify(entry), path.dirname(file), ENTRY_DIR);
+		await fs.mkdir(this.dir, { recursive: true });
+		await fs.writeFile(path.join(this.dir, `${key}.json`), json);
+	}
+
+	private key(file: string, config: esbuild.BuildOptions, source: string) {
+		// Plugins can't be serialized, so only their names and the options
+		// registered for them are part of the key.
+		const plugins = config.plugins?.map(plugin => ({
+			name: plugin.name,
+			options: pluginKeys.get(plugin),
+		}));
+		const options = JSON.stringify({
+			version: esbuild.version,
+			config: { ...config, plugins },
+		});
+		const dir = path.dirname(file);
+		return hash(relocate(options, dir, ENTRY_DIR) + "\n" + source);
+	}
+}
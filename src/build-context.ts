@@ -0,0 +1,56 @@
+import * as esbuild from "esbuild";
+
+export type BuildResult = esbuild.BuildResult & {
+	outputFiles: esbuild.OutputFile[];
+};
+
+export interface BuildContext {
+	rebuild(): Promise<BuildResult>;
+	dispose(): Promise<void>;
+}
+
+// The context API of esbuild 0.17 and later, which the types of the
+// installed release may lack.
+interface ContextApi {
+	context(config: esbuild.BuildOptions): Promise<BuildContext>;
+}
+
+// esbuild 0.17 replaced `incremental` builds, and the `rebuild` function on
+// their result, with build contexts.
+function hasContext(api: object): api is ContextApi {
+	return typeof (api as Partial<ContextApi>).context === "function";
+}
+
+// Creates a context that builds with the same options on every `rebuild`,
+// reusing the work of the previous build where possible.
+export function createContext(config: esbuild.BuildOptions): BuildContext {
+	if (hasContext(esbuild)) {
+		const context = esbuild.context(config);
+		// An invalid config is reported by `rebuild`, not here.
+		context.catch(() => {});
+		return {
+			async rebuild() {
+				return (await context).rebuild();
+			},
+			async dispose() {
+				const ctx = await context.catch(() => null);
+				await ctx?.dispose();
+			},
+		};
+	}
+
+	let previous: esbuild.BuildIncremental | null = null;
+	return {
+		async rebuild() {
+			if (previous) return (await previous.rebuild()) as BuildResult;
+			const result = await esbuild.build({ ...config, incremental: true });
+			previous = result as esbuild.BuildIncremental;
+			return result as BuildResult;
+		},
+		async dispose() {
+			// Releasing the result allows the child process to end.
+			previous?.rebuild.dispose();
+			previous = null;
+		},
+	};
+}
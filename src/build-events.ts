@@ -0,0 +1,72 @@
+import type esbuild from "esbuild";
+import type karma from "karma";
+import type { BundleResult } from "./bundle";
+import type { Log } from "./utils";
+
+export interface BuildStartEvent {
+	/** The entry point being built. */
+	file: string;
+}
+
+export interface BuildEndEvent {
+	/** The entry point that was built. */
+	file: string;
+	/** How long the build took, in milliseconds. */
+	duration: number;
+	warnings: esbuild.Message[];
+	/** Empty when the build succeeded. */
+	errors: esbuild.Message[];
+	/** Every file that went into the build. Empty when the build failed. */
+	inputs: string[];
+}
+
+export interface BuildHooks {
+	/** Called before every build. */
+	onBuildStart?: (event: BuildStartEvent) => void;
+	/** Called after every build, whether it succeeded or failed. */
+	onBuildEnd?: (event: BuildEndEvent) => void;
+}
+
+// BuildEvents reports the progress of every build, both as events on Karma's
+// emitter (for plugins like reporters) and to the callbacks in the config.
+export class BuildEvents {
+	private declare emitter: karma.Server;
+	private declare log: Log;
+	private declare hooks: BuildHooks;
+
+	constructor(emitter: karma.Server, log: Log, hooks: BuildHooks) {
+		this.emitter = emitter;
+		this.log = log;
+		this.hooks = hooks;
+	}
+
+	start(file: string) {
+		const event: BuildStartEvent = { file };
+		this.emitter.emit("esbuild_build_start", event);
+		this.call("onBuildStart", this.hooks.onBuildStart, event);
+	}
+
+	end(file: string, result: BundleResult) {
+		const { duration, warnings, errors, metafile } = result;
+		const inputs = metafile ? Object.keys(metafile.inputs) : [];
+		const event: BuildEndEvent = { file, duration, warnings, errors, inputs };
+		const name =
+			errors.length > 0 ? "esbuild_build_error" : "esbuild_build_complete";
+		this.emitter.emit(name, event);
+		this.call("onBuildEnd", this.hooks.onBuildEnd, event);
+	}
+
+	// An error in a hook is logged instead of failing the build, whose result
+	// would never be served otherwise.
+	private call<T>(
+		name: string,
+		hook: ((event: T) => void) | undefined,
+		event: T,
+	) {
+		try {
+			hook?.(event);
+		} catch (err) {
+			this.log.error(`The ${name} hook failed: ${err.stack || err}`);
+		}
+	}
+}
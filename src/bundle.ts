@@ -1,46 +1,136 @@
 import * as path from "path";
+import { promises as fs } from "fs";
 import * as esbuild from "esbuild";
-import { Deferred } from "./utils";
+import { absoluteUrl, Deferred, formatMessage, hasNamespace } from "./utils";
+import { isMetafileOutput, metafileOption, readMetafile } from "./metafile";
+import { createContext } from "./build-context";
 
 import type { Log } from "./utils";
 import type { SourceMapPayload } from "module";
+import type { Metafile } from "./metafile";
+import type { BuildCache } from "./build-cache";
+import type { BuildEvents } from "./build-events";
+import type { BuildContext, BuildResult } from "./build-context";
 interface BundledFile {
 	code: string;
 	map: SourceMapPayload;
 }
 
-type BuildResult = esbuild.BuildIncremental & {
-	outputFiles: esbuild.OutputFile[];
-};
+export interface BundleResult extends BundledFile {
+	// Every file emitted by the build (the entry point, chunks, assets and
+	// source maps), keyed by the path it is served from.
+	outputs: Map<string, string | Uint8Array>;
+	// Absent when the build failed.
+	metafile?: Metafile;
+	// How long the build took, in milliseconds.
+	duration: number;
+	warnings: esbuild.Message[];
+	// Empty unless the build failed.
+	errors: esbuild.Message[];
+	// Set when the result was read from the build cache.
+	cached?: boolean;
+}
+
+// An entry point whose source only exists in memory, like the imports of the
+// test files.
+export interface EntryPoint {
+	source(): string;
+	plugin(): esbuild.Plugin;
+}
+
+export interface BundleOptions {
+	cache?: BuildCache | null;
+	events?: BuildEvents | null;
+	// Builds the entry point's in-memory source instead of the file.
+	entryPoint?: EntryPoint | null;
+	// Turns all warnings, or the ones with these ids, into build errors.
+	failOnWarning?: boolean | string[];
+}
+
+// Creates a single line of code that adds the styles to the page. When the
+// bundle is loaded again (like after a rebuild), the previous styles are
+// replaced instead of duplicated.
+function injectStyles(name: string, css: string, mapUrl: string) {
+	if (mapUrl) css += `\n/*# sourceMappingURL=${mapUrl} */`;
+	const id = JSON.stringify(name);
+	return (
+		`(function(){var s=document.querySelector('style[data-esbuild="'+${id}+'"]');` +
+		`if(!s){s=document.createElement("style");s.setAttribute("data-esbuild",${id});document.head.appendChild(s)}` +
+		`s.textContent=${JSON.stringify(css)}})();\n`
+	);
+}
 
 export class Bundle {
-	private declare file: string;
+	declare readonly file: string;
 	private declare log: Log;
 	private declare config: esbuild.BuildOptions;
+	private declare cache: BuildCache | null;
+	private declare events: BuildEvents | null;
+	private declare entryPoint: EntryPoint | null;
+	private declare failOnWarning: boolean | string[];
+	// Whether the source maps are also inlined into the code, for
+	// `sourcemap: "inline"` and `"both"`.
+	private declare inlineMaps: boolean;
+	// The warnings logged after the previous build, so that rebuilds only log
+	// new ones.
+	private warnings = new Set<string>();
 
 	// Dirty signifies that that the current result is stale, and a new build is
 	// needed. It's reset during the next build.
 	private _dirty = false;
+	// Set when files were removed from the build, which the next build must
+	// not take from the previous, incremental one.
+	private clean = false;
 	// buildsInProgress tracks the number of builds. When a build takes too
 	// long, a new build may have started before the original completed. In this
 	// case, we resolve the old build with the latest result.
 	private buildsInProgress = 0;
-	private deferred = new Deferred<BundledFile>();
-	private incrementalBuild: esbuild.BuildIncremental | null = null;
+	private deferred = new Deferred<BundleResult>();
+	private context: BuildContext | null = null;
 
-	constructor(file: string, log: Log, config: esbuild.BuildOptions) {
+	constructor(
+		file: string,
+		log: Log,
+		config: esbuild.BuildOptions,
+		{
+			cache = null,
+			events = null,
+			entryPoint = null,
+			failOnWarning = false,
+		}: BundleOptions = {},
+	) {
 		this.file = file;
 		this.log = log;
+		this.cache = cache;
+		this.events = events;
+		this.entryPoint = entryPoint;
+		this.failOnWarning = failOnWarning;
+		this.inlineMaps =
+			config.sourcemap === "inline" || config.sourcemap === "both";
 
 		this.config = {
 			target: "es2015",
+			// Build errors are formatted and logged through Karma instead.
+			logLevel: "silent",
 			...config,
+			plugins: entryPoint
+				? [entryPoint.plugin(), ...(config.plugins || [])]
+				: config.plugins,
 			entryPoints: [file],
 			bundle: true,
 			write: false,
-			incremental: true,
-			platform: "browser",
+			// The tests run in the browser, but packages may be resolved like on
+			// the neutral platform. Its default format isn't a classic script.
+			...(config.platform === "neutral"
+				? { platform: "neutral", format: config.format || "iife" }
+				: { platform: "browser" }),
+			// Karma needs a source map to map stack traces. Inline maps are added
+			// after the build, so that Karma gets them too.
 			sourcemap: "external",
+			// Assets are referenced from the page, not the script, so they need
+			// an absolute URL. The middleware serves them next to the entry point.
+			publicPath: config.publicPath ?? absoluteUrl(path.dirname(file)),
+			metafile: metafileOption(config.outdir!, file),
 			define: {
 				"process.env.NODE_ENV": JSON.stringify(
 					process.env.NODE_ENV || "development",
@@ -53,7 +143,10 @@ export class Bundle {
 	dirty() {
 		if (this._dirty) return;
 		this._dirty = true;
+		// Anyone still waiting for the current result gets the next one.
+		const { deferred } = this;
 		this.deferred = new Deferred();
+		deferred.resolve(this.deferred.promise);
 	}
 
 	async write(beforeProcess: () => void, afterProcess: () => void) {
@@ -76,6 +169,12 @@ export class Bundle {
 		return result;
 	}
 
+	// Like `dirty`, but the next build starts from scratch.
+	reset() {
+		this.dirty();
+		this.clean = true;
+	}
+
 	read() {
 		return this.deferred.promise;
 	}
@@ -87,44 +186,198 @@ export class Bundle {
 		if (this.buildsInProgress > 0 || this._dirty) {
 			await this.deferred.promise;
 		}
-		// Releasing the result allows the child process to end.
-		this.incrementalBuild?.rebuild.dispose();
-		this.incrementalBuild = null;
+		await this.context?.dispose();
+		this.context = null;
 	}
 
 	private async bundle() {
+		this.events?.start(this.file);
+		let result = await this.build();
+		this.logWarnings(result.warnings);
+		if (result.errors.length === 0) result = this.checkWarnings(result);
+		this.events?.end(this.file, result);
+		return result;
+	}
+
+	private logWarnings(warnings: esbuild.Message[]) {
+		const logged = this.warnings;
+		this.warnings = new Set(warnings.map(w => formatMessage(w, "warning")));
+		for (const warning of this.warnings) {
+			if (!logged.has(warning)) this.log.warn(warning);
+		}
+	}
+
+	// Fails the build when it has warnings that `failOnWarning` applies to.
+	private checkWarnings(result: BundleResult): BundleResult {
+		const { failOnWarning } = this;
+		if (!failOnWarning) return result;
+		const failing = result.warnings.filter(w => {
+			// Only newer esbuild versions give warnings an id.
+			const { id } = w as esbuild.Message & { id?: string };
+			return failOnWarning === true || (!!id && failOnWarning.includes(id));
+		});
+		if (failing.length === 0) return result;
+
+		const plural = failing.length === 1 ? "" : "s";
+		const message = [
+			`Build failed with ${failing.length} warning${plural} (failOnWarning):`,
+			...failing.map(w => formatMessage(w, "warning")),
+		].join("\n");
+		this.log.error(message);
+		return this.failure(message, result.duration, failing, result.warnings);
+	}
+
+	// Throwing while the bundle loads makes Karma report an error for the
+	// run, which fails a single run instead of passing with no tests.
+	private failure(
+		message: string,
+		duration: number,
+		errors: esbuild.Message[],
+		warnings: esbuild.Message[],
+	): BundleResult {
+		const code = `throw new Error(${JSON.stringify(message)});`;
+		return {
+			code,
+			map: {} as SourceMapPayload,
+			outputs: new Map([[this.file, code]]),
+			duration,
+			warnings,
+			errors,
+		};
+	}
+
+	private async source() {
+		if (this.entryPoint) return this.entryPoint.source();
+		return fs.readFile(this.file, "utf8");
+	}
+
+	private async build(): Promise<BundleResult> {
+		const start = Date.now();
 		try {
 			this._dirty = false;
-			if (this.incrementalBuild) {
-				const result = await this.incrementalBuild.rebuild();
-				return this.processResult(result as BuildResult);
+			if (this.clean) {
+				this.clean = false;
+				const { context } = this;
+				this.context = null;
+				await context?.dispose();
+			}
+			if (this.context) {
+				const result = await this.context.rebuild();
+				return this.processResult(result, start);
 			}
 
-			const result = (await esbuild.build(this.config)) as BuildResult;
-			this.incrementalBuild = result;
+			// Rebuilds in watch mode are incremental, only a fresh build can be
+			// replaced by a cached one.
+			const source = this.cache && (await this.source());
+			const cached = await this.cache?.read(this.file, this.config, source!);
+			if (cached) {
+				this.log.info(`Reusing the cached build of ${this.file}`);
+				return { ...cached, duration: Date.now() - start, cached: true };
+			}
 
-			return this.processResult(result);
-		} catch (err) {
-			this.log.error(err.message);
+			this.context = createContext(this.config);
+			const result = await this.context.rebuild();
 
-			return {
-				code: `console.error(${JSON.stringify(err.message)})`,
-				map: {} as SourceMapPayload,
-			};
+			const item = this.processResult(result, start);
+			await this.cache
+				?.write(this.file, this.config, source!, item)
+				.catch(err => {
+					this.log.error(`Failed to cache the build: ${err.message}`);
+				});
+			return item;
+		} catch (err) {
+			const { errors = [], warnings = [] } = err as esbuild.BuildFailure;
+			let message: string = err.message;
+			if (errors.length === 0) {
+				errors.push({ text: message, location: null, notes: [], detail: err });
+			} else {
+				const plural = errors.length === 1 ? "" : "s";
+				message = [
+					`Build failed with ${errors.length} error${plural}:`,
+					...errors.map(e => formatMessage(e)),
+				].join("\n");
+			}
+			this.log.error(message);
+			return this.failure(message, Date.now() - start, errors, warnings);
 		}
 	}
 
-	private processResult(result: BuildResult) {
-		const map = JSON.parse(result.outputFiles[0].text) as SourceMapPayload;
-		const source = result.outputFiles[1].text;
-
-		const basename = path.basename(this.file);
-		const code = source + `\n//# sourceMappingURL=${basename}.map`;
+	private processResult(result: BuildResult, start: number): BundleResult {
 		// outdir is guaranteed to be the root of the file system.
 		const outdir = this.config.outdir!;
-		map.sources = map.sources.map(s => path.join(outdir, s));
-		map.file = basename;
+		const dir = path.dirname(this.file);
+		const entryOutput = path.join(
+			outdir,
+			path.basename(this.file, path.extname(this.file)) + ".js",
+		);
+
+		// The entry point is served by Karma at the original file's path. Every
+		// other file is imported relative to it, so they're served next to it.
+		const served = (file: string) =>
+			file === entryOutput
+				? this.file
+				: path.join(dir, path.relative(outdir, file));
+
+		const maps = new Map<string, SourceMapPayload>();
+		for (const file of result.outputFiles) {
+			if (!file.path.endsWith(".map")) continue;
+			maps.set(file.path.slice(0, -4), JSON.parse(file.text));
+		}
+
+		let code = "";
+		let map = {} as SourceMapPayload;
+		const outputs = new Map<string, string | Uint8Array>();
+		for (const file of result.outputFiles) {
+			if (file.path.endsWith(".map")) continue;
+			if (isMetafileOutput(outdir, this.file, file.path)) continue;
+
+			const servedPath = served(file.path);
+			const sourceMap = maps.get(file.path);
+			if (!sourceMap) {
+				outputs.set(servedPath, file.contents);
+				continue;
+			}
+
+			const basename = path.basename(servedPath);
+			const mapDir = path.dirname(file.path);
+			sourceMap.sources = sourceMap.sources.map(s =>
+				hasNamespace(s) ? s : path.join(mapDir, s),
+			);
+			sourceMap.file = basename;
+			const mapUrl = this.inlineMaps
+				? `data:application/json;base64,${Buffer.from(
+						JSON.stringify(sourceMap),
+				  ).toString("base64")}`
+				: `${basename}.map`;
+			const text = file.path.endsWith(".css")
+				? file.text + `\n/*# sourceMappingURL=${mapUrl} */`
+				: file.text + `\n//# sourceMappingURL=${mapUrl}`;
+
+			outputs.set(servedPath, text);
+			outputs.set(`${servedPath}.map`, JSON.stringify(sourceMap, null, 2));
+			if (servedPath === this.file) {
+				code = text;
+				map = sourceMap;
+			}
+		}
+
+		// CSS imported by the tests is emitted next to the entry point. Inline it
+		// into the bundle, so the styles are applied before any test runs.
+		const cssOutput = entryOutput.replace(/\.js$/, ".css");
+		const css = result.outputFiles.find(f => f.path === cssOutput);
+		if (css) {
+			const cssPath = served(cssOutput);
+			const mapUrl = maps.has(cssOutput) ? absoluteUrl(`${cssPath}.map`) : "";
+			code = injectStyles(path.basename(cssPath), css.text, mapUrl) + code;
+			// The injected styles take up exactly one line.
+			map.mappings = ";" + map.mappings;
+			outputs.set(this.file, code);
+			outputs.set(`${this.file}.map`, JSON.stringify(map, null, 2));
+		}
 
-		return { code, map };
+		const metafile = readMetafile(result, outdir, this.file);
+		const duration = Date.now() - start;
+		const { warnings } = result;
+		return { code, map, outputs, metafile, duration, warnings, errors: [] };
 	}
 }
@@ -0,0 +1,60 @@
+import { Bundle } from "./bundle";
+
+import type esbuild from "esbuild";
+import type { Log } from "./utils";
+import type { BundleOptions } from "./bundle";
+
+// BundlerMap holds one Bundle per test file, used when `singleBundle` is
+// disabled. Each test file is built as its own entry point, so module state
+// can't leak between them.
+export class BundlerMap {
+	private declare log: Log;
+	private declare config: esbuild.BuildOptions;
+	private declare options: BundleOptions;
+	private bundlers = new Map<string, Bundle>();
+
+	constructor(
+		log: Log,
+		config: esbuild.BuildOptions,
+		options: BundleOptions = {},
+	) {
+		this.log = log;
+		this.config = config;
+		this.options = options;
+	}
+
+	get(file: string) {
+		let bundle = this.bundlers.get(file);
+		if (!bundle) {
+			bundle = new Bundle(file, this.log, this.config, this.options);
+			this.bundlers.set(file, bundle);
+		}
+		return bundle;
+	}
+
+	has(file: string) {
+		return this.bundlers.has(file);
+	}
+
+	values() {
+		return this.bundlers.values();
+	}
+
+	async remove(file: string) {
+		const bundle = this.bundlers.get(file);
+		if (!bundle) return;
+		this.bundlers.delete(file);
+		await bundle.stop();
+	}
+
+	dirty() {
+		for (const bundle of this.bundlers.values()) {
+			bundle.dirty();
+		}
+	}
+
+	async stop() {
+		const bundles = Array.from(this.bundlers.values());
+		await Promise.all(bundles.map(bundle => bundle.stop()));
+	}
+}
@@ -0,0 +1,169 @@
+import * as path from "path";
+import * as fsSync from "fs";
+import { promises as fs } from "fs";
+import * as esbuild from "esbuild";
+import { createInstrumenter } from "istanbul-lib-instrument";
+import minimatch from "minimatch";
+import { loaders } from "./utils";
+
+import type { RawSourceMap } from "source-map";
+
+export interface CoverageOptions {
+	/** Globs (relative to basePath) of files to instrument. */
+	include?: string[];
+	/** Globs (relative to basePath) of files to skip. */
+	exclude?: string[];
+}
+
+function toDataUrl(map: RawSourceMap) {
+	const base64 = Buffer.from(JSON.stringify(map)).toString("base64");
+	return `//# sourceMappingURL=data:application/json;base64,${base64}`;
+}
+
+// Parses JSON with comments and trailing commas, like tsconfig.json.
+function parseJsonc(text: string) {
+	const string = /"(?:[^"\\]|\\.)*"/.source;
+	const json = text
+		.replace(new RegExp(`(${string})|//[^\\n]*|/\\*[\\s\\S]*?\\*/`, "g"), "$1")
+		.replace(new RegExp(`(${string})|,(\\s*[}\\]])`, "g"), "$1$2");
+	return JSON.parse(json);
+}
+
+// Reads the compiler options of a tsconfig.json, including the ones it
+// extends from a relative path.
+export function readCompilerOptions(file: string): Record<string, unknown> {
+	const { extends: base, compilerOptions } = parseJsonc(
+		fsSync.readFileSync(file, "utf-8"),
+	);
+	const inherited =
+		typeof base === "string" && base.startsWith(".")
+			? readCompilerOptions(
+					path.resolve(
+						path.dirname(file),
+						base.endsWith(".json") ? base : `${base}.json`,
+					),
+			  )
+			: {};
+	return { ...inherited, ...compilerOptions };
+}
+
+// The options that decide how esbuild transforms TS and JSX. Options that
+// aren't set are left out, as older esbuild releases reject unknown ones.
+const jsxOptions = [
+	"jsx",
+	"jsxDev",
+	"jsxFactory",
+	"jsxFragment",
+	"jsxImportSource",
+	"jsxSideEffects",
+];
+
+// esbuild's transform API doesn't read tsconfig.json, unlike its builds. It
+// gets the compiler options a build would use: the ones of `tsconfig`, or of
+// the closest tsconfig.json.
+function findTsconfig(file: string, config: esbuild.BuildOptions) {
+	if (config.tsconfig) {
+		return path.resolve(config.absWorkingDir || "", config.tsconfig);
+	}
+	for (let dir = path.dirname(file); ; dir = path.dirname(dir)) {
+		const candidate = path.join(dir, "tsconfig.json");
+		if (fsSync.existsSync(candidate)) return candidate;
+		if (path.dirname(dir) === dir) return null;
+	}
+}
+
+// The JSX and tsconfig options of a build, for transforming a single file.
+export function transformOptions(file: string, config: esbuild.BuildOptions) {
+	// Some of these options are missing from the types of older releases.
+	const userOptions = config as Record<string, unknown>;
+	const options: Record<string, unknown> = {};
+	for (const key of jsxOptions) {
+		if (userOptions[key] !== undefined) options[key] = userOptions[key];
+	}
+
+	if (userOptions.tsconfigRaw) {
+		options.tsconfigRaw = userOptions.tsconfigRaw;
+	} else {
+		const tsconfig = findTsconfig(file, config);
+		try {
+			if (tsconfig) {
+				options.tsconfigRaw = {
+					compilerOptions: readCompilerOptions(tsconfig),
+				};
+			}
+		} catch {
+			// esbuild reports an invalid tsconfig.json when it builds the file.
+		}
+	}
+	return options as esbuild.TransformOptions;
+}
+
+// Instruments source files as esbuild loads them, so the bundle populates
+// `window.__coverage__` with counters mapped back to the original files.
+export function createCoveragePlugin(
+	basePath: string,
+	options: CoverageOptions,
+	config: esbuild.BuildOptions,
+): esbuild.Plugin {
+	const { include = ["**"], exclude = ["**/node_modules/**"] } = options;
+	const matches = (file: string) => {
+		const relative = path.relative(basePath, file).replace(/\\/g, "/");
+		return (
+			include.some(glob => minimatch(relative, glob, { dot: true })) &&
+			!exclude.some(glob => minimatch(relative, glob, { dot: true }))
+		);
+	};
+
+	return {
+		name: "karma-esbuild-coverage",
+		setup(build) {
+			build.onLoad({ filter: /\.[cm]?[jt]sx?$/ }, async args => {
+				if (!matches(args.path)) return;
+
+				const ext = path.extname(args.path);
+				const loader = config.loader?.[ext] || loaders[ext];
+				const source = await fs.readFile(args.path, "utf-8");
+
+				// The instrumenter only understands JS, so TS and JSX have to be
+				// stripped first. The transform's map is handed to the
+				// instrumenter, which lets coverage remap to the original file.
+				let code = source;
+				let inputSourceMap: RawSourceMap | undefined;
+				if (loader !== "js") {
+					const result = await esbuild.transform(source, {
+						loader,
+						sourcefile: args.path,
+						sourcemap: "external",
+						target: "esnext",
+						...transformOptions(args.path, config),
+					});
+					code = result.code;
+					inputSourceMap = JSON.parse(result.map);
+				}
+
+				const instrumenter = createInstrumenter({
+					esModules: true,
+					produceSourceMap: true,
+				});
+				const instrumented = instrumenter.instrumentSync(
+					code,
+					args.path,
+					inputSourceMap,
+				);
+
+				// Chain the instrumenter's source map, so that stack traces still
+				// point to the original code. esbuild resolves its sources relative
+				// to the file.
+				const map = instrumenter.lastSourceMap();
+				const dir = path.dirname(args.path);
+				map.sources = map.sources.map(s =>
+					path.relative(dir, path.resolve(dir, s)),
+				);
+				return {
+					contents: `${instrumented}\n${toDataUrl(map)}`,
+					loader: "js",
+				};
+			});
+		},
+	};
+}
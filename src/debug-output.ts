@@ -0,0 +1,57 @@
+import * as path from "path";
+import * as fs from "fs";
+
+import type { BundleResult } from "./bundle";
+import type { Log } from "./utils";
+
+// DebugOutput writes the latest build of every bundle to a directory, so
+// that the code that ran in the browser can be inspected. Files are named
+// after the bundle, and overwritten by every build.
+export class DebugOutput {
+	private declare dir: string;
+	private declare metafile: boolean;
+	private declare log: Log;
+
+	constructor(dir: string, metafile: boolean, log: Log) {
+		this.dir = dir;
+		this.metafile = metafile;
+		this.log = log;
+	}
+
+	// `entry` is the source of the generated entry point, if the bundle has
+	// one. Errors are only logged, as the tests can run without the files.
+	write(name: string, result: BundleResult, entry: string | null) {
+		try {
+			this.writeFiles(name, result, entry);
+		} catch (err) {
+			this.log.error(`Failed to write the bundle ${name}: ${err.message}`);
+		}
+	}
+
+	private writeFiles(name: string, result: BundleResult, entry: string | null) {
+		const base = path.join(
+			this.dir,
+			name.replace(/\.[cm]?[jt]sx?$/, "").replace(/[/\\]/g, "_"),
+		);
+		const basename = path.basename(base);
+		fs.mkdirSync(this.dir, { recursive: true });
+
+		// The source map is written next to the code, so the comment has to
+		// point to its new name.
+		const code = result.code.replace(
+			/(\/\/# sourceMappingURL=).*$/,
+			`$1${basename}.js.map`,
+		);
+		fs.writeFileSync(`${base}.js`, code);
+		fs.writeFileSync(`${base}.js.map`, JSON.stringify(result.map, null, 2));
+		if (entry !== null) {
+			fs.writeFileSync(`${base}.entry.js`, entry);
+		}
+		if (this.metafile && result.metafile) {
+			fs.writeFileSync(
+				`${base}.meta.json`,
+				JSON.stringify(result.metafile, null, 2),
+			);
+		}
+	}
+}
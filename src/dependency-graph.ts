@@ -0,0 +1,47 @@
+import type { Metafile } from "./metafile";
+
+// DependencyGraph remembers which files import which, merged across builds.
+// A build that only includes some test files still knows about the others
+// from earlier builds.
+export class DependencyGraph {
+	private imports = new Map<string, string[]>();
+
+	update(metafile: Metafile) {
+		for (const [input, { imports }] of Object.entries(metafile.inputs)) {
+			const paths = imports.map(i => i.path);
+			this.imports.set(input, paths);
+		}
+	}
+
+	// Finds the roots that (transitively) import any of the changed files.
+	// Returns null when a changed file isn't part of the graph, because we
+	// can't know what depends on it.
+	affected(changed: Iterable<string>, roots: Iterable<string>) {
+		const importers = new Map<string, string[]>();
+		for (const [file, imports] of this.imports) {
+			for (const imported of imports) {
+				let list = importers.get(imported);
+				if (!list) {
+					list = [];
+					importers.set(imported, list);
+				}
+				list.push(file);
+			}
+		}
+
+		const seen = new Set<string>();
+		const queue: string[] = [];
+		for (const file of changed) {
+			if (!this.imports.has(file)) return null;
+			queue.push(file);
+		}
+		while (queue.length > 0) {
+			const file = queue.pop()!;
+			if (seen.has(file)) continue;
+			seen.add(file);
+			queue.push(...(importers.get(file) || []));
+		}
+
+		return new Set(Array.from(roots).filter(root => seen.has(root)));
+	}
+}
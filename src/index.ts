@@ -1,8 +1,30 @@
-import { debounce, formatTime } from "./utils";
+import { contentType, debounce, formatMessage, formatTime } from "./utils";
 import { Bundle } from "./bundle";
-import { TestEntryPoint } from "./test-entry-point";
+import { TestEntryPoint, removeStaleEntryPoints } from "./test-entry-point";
+import { BundlerMap } from "./bundler-map";
+import { createCoveragePlugin } from "./coverage";
+import { DependencyGraph } from "./dependency-graph";
+import { InputWatcher } from "./input-watcher";
+import { BuildReports } from "./report";
+import { BuildCache, setPluginKey } from "./build-cache";
+import { BuildEvents } from "./build-events";
+import { TypeChecker } from "./typecheck";
+import { Shard } from "./shard";
+import {
+	Workers,
+	WORKER_PREFIX,
+	createWorkerPlugin,
+	workerFile,
+} from "./workers";
+import { createMockPlugin } from "./mocks";
+import { Vendor, createVendorPlugin } from "./vendor";
+import { DebugOutput } from "./debug-output";
+import { transformError, transformFile } from "./transform";
+import { knownOptions, validateConfig } from "./validate";
+import { BuildGroup, mergeOptions, overrideMatcher } from "./overrides";
 import chokidar from "chokidar";
 import * as path from "path";
+import * as fs from "fs";
 
 import type esbuild from "esbuild";
 import type karma from "karma";
@@ -10,6 +32,14 @@ import type { SourceMapPayload } from "module";
 import type { IncomingMessage, ServerResponse } from "http";
 import type { FSWatcher } from "chokidar";
 import type { Log } from "./utils";
+import type { CoverageOptions } from "./coverage";
+import type { BundleResult } from "./bundle";
+import type { Override } from "./overrides";
+import type { BuildHooks } from "./build-events";
+import type { TypecheckOptions } from "./typecheck";
+import type { ShardOptions } from "./shard";
+import type { Mocks } from "./mocks";
+import type { VendorOptions } from "./vendor";
 
 interface KarmaFile {
 	originalPath: string;
@@ -30,21 +60,166 @@ interface KarmaLogger {
 	create(label: string): Log;
 }
 
+// Missing from the types of Karma's server.
+interface KarmaServer extends karma.Server {
+	refreshFile(path: string): Promise<unknown>;
+}
+
+interface EsbuildConfig extends BuildHooks {
+	bundleDelay?: number;
+	/**
+	 * Build all test files into a single bundle. When disabled, every test
+	 * file is built as its own entry point and served as its own script.
+	 */
+	singleBundle?: boolean;
+	/**
+	 * Instrument source files with Istanbul, populating `window.__coverage__`
+	 * for coverage reporters.
+	 */
+	coverage?: boolean | CoverageOptions;
+	/**
+	 * In watch mode, only run the test files that import a changed file.
+	 * Falls back to running every test file when that can't be worked out.
+	 */
+	affectedOnly?: boolean;
+	/**
+	 * In watch mode, the files imported by the tests are watched. Extra
+	 * `paths` (relative to basePath) can be added, and `ignored` takes
+	 * additional chokidar patterns that shouldn't trigger a rebuild.
+	 */
+	watcher?: {
+		paths?: string[];
+		ignored?: Array<string | RegExp>;
+	};
+	/**
+	 * A directory (relative to basePath) to write the metafile and a summary
+	 * of every bundle's composition to, after each build.
+	 */
+	report?: string;
+	/**
+	 * Test files matching an override's `files` globs are built into their
+	 * own bundle, with the override's `options` merged over the shared ones.
+	 * The first matching override wins.
+	 */
+	overrides?: Override[];
+	/**
+	 * A directory (relative to basePath) to store build results in. A later
+	 * run reuses a stored result when the entry point, the esbuild options
+	 * and the contents of every input are unchanged.
+	 */
+	cache?: string;
+	/**
+	 * Type check the test files (and everything they import) with the
+	 * TypeScript compiler, in parallel to the build. Errors are logged, and
+	 * can fail a single run with `failOnError`.
+	 */
+	typecheck?: boolean | TypecheckOptions;
+	/**
+	 * Only run a part of the test files, so that the suite can be split
+	 * between several Karma processes. Requires `singleBundle`.
+	 */
+	shard?: ShardOptions;
+	/**
+	 * Import the test files lazily, and only run the ones whose path
+	 * (relative to basePath) matches the regular expression passed as
+	 * `--esbuild-filter` in `client.args`, or as the `esbuild-filter` query
+	 * parameter of the debug page. Requires `singleBundle`.
+	 */
+	lazy?: boolean;
+	/**
+	 * Fail the build when esbuild reports warnings, or only the ones with
+	 * these message ids, like `"duplicate-object-key"`. Older esbuild
+	 * releases don't give their warnings ids.
+	 */
+	failOnWarning?: boolean | string[];
+	/**
+	 * Replace modules with test doubles. Use an override's `mocks` to only
+	 * replace them in the bundle of some test files.
+	 */
+	mocks?: Mocks;
+	/**
+	 * A directory (relative to basePath) to write every bundle to after each
+	 * build, for debugging. Next to the code and its source map, it contains
+	 * the generated entry point, and the metafile when `metafile` is enabled.
+	 */
+	outputDir?: string;
+	/**
+	 * Build the packages imported by the test files into a separate bundle,
+	 * served before the test bundles. It's only built again when the set of
+	 * imported packages or a lockfile changes. Requires `singleBundle`.
+	 */
+	vendor?: boolean | VendorOptions;
+	/**
+	 * Build and serve the Web Workers that source files start with
+	 * `new Worker(new URL("./worker.js", import.meta.url))`. Finding them
+	 * reads every source file again, so it's opt-in.
+	 */
+	workers?: boolean;
+}
+
+type KarmaConfig = karma.ConfigOptions & {
+	esbuild?: esbuild.BuildOptions & EsbuildConfig;
+};
+
 function getBasePath(config: karma.ConfigOptions) {
 	return config.basePath || process.cwd();
 }
 
+// Test files are only imported lazily into the single bundle's entry point.
+function isLazy(config: KarmaConfig) {
+	const { lazy = false, singleBundle = true } = config.esbuild || {};
+	return lazy && singleBundle;
+}
+
+// The vendor bundle is built from the imports of the single bundles.
+function isVendored(config: KarmaConfig) {
+	const { vendor = false, singleBundle = true } = config.esbuild || {};
+	return !!vendor && singleBundle;
+}
+
+// Workers are only looked for when enabled.
+function workerHandler(config: KarmaConfig, onWorker: (file: string) => void) {
+	const { workers = false } = config.esbuild || {};
+	return workers ? onWorker : null;
+}
+
 function createPreprocessor(
-	config: karma.ConfigOptions & {
-		esbuild?: { bundleDelay?: number };
-	},
-	emitter: karma.Server,
+	config: KarmaConfig,
+	emitter: KarmaServer,
 	log: Log,
 	testEntryPoint: TestEntryPoint,
 	bundle: Bundle,
+	bundlerMap: BundlerMap,
+	reports: BuildReports | null,
+	overrideGroups: BuildGroup[],
+	typeChecker: TypeChecker | null,
+	workers: Workers,
+	debugOutput: DebugOutput | null,
+	vendor: Vendor | null,
 ): KarmaPreprocess {
 	const basePath = getBasePath(config);
-	const { bundleDelay = 700 } = config.esbuild || {};
+	const {
+		bundleDelay = 700,
+		singleBundle = true,
+		format,
+		affectedOnly = false,
+		watcher: watcherOptions = {},
+		typecheck,
+		workers: findWorkers = false,
+	} = config.esbuild || {};
+	// ESM output must be loaded with `<script type="module">`, so that chunks
+	// can be imported when code splitting.
+	const isModule = format === "esm";
+
+	// Test files are built with the options of the first matching override,
+	// or the shared options otherwise.
+	const groups = [
+		...overrideGroups,
+		new BuildGroup(() => true, testEntryPoint, bundle, bundlerMap),
+	];
+	const groupOf = (file: string) => groups.find(g => g.matches(file))!;
+	const entryGroup = (file: string) =>
+		groups.find(g => g.testEntryPoint.file === file);
 
 	// Inject middleware to handle the bundled file and map.
 	if (!config.middleware) {
@@ -58,39 +233,128 @@ function createPreprocessor(
 	if (!config.files) {
 		config.files = [];
 	}
-	// Set preprocessor for our file to install sourceMap on it, giving Karma
-	// the ability do unminify stack traces.
-	config.preprocessors![testEntryPoint.file] = ["esbuild"];
-	// For the sourcemapping to work, the file must be served by Karma, preprocessed, and have
-	// the preproccessor attach a file.sourceMap.
-	config.files.push({
-		pattern: testEntryPoint.file,
-		included: true,
-		served: true,
-		watched: false,
-	});
-	testEntryPoint.touch();
+	if (singleBundle) {
+		for (const { testEntryPoint } of groups) {
+			// Set preprocessor for our file to install sourceMap on it, giving Karma
+			// the ability do unminify stack traces.
+			config.preprocessors![testEntryPoint.file] = ["esbuild"];
+			// For the sourcemapping to work, the file must be served by Karma, preprocessed, and have
+			// the preproccessor attach a file.sourceMap.
+			config.files.push({
+				pattern: testEntryPoint.file,
+				included: true,
+				served: true,
+				watched: false,
+				...(isModule && { type: "module" }),
+			});
+			testEntryPoint.touch();
+		}
+	}
+	if (vendor) {
+		// The packages have to be loaded before any test bundle.
+		config.preprocessors![vendor.file] = ["esbuild"];
+		config.files.unshift({
+			pattern: vendor.file,
+			included: true,
+			served: true,
+			watched: false,
+		});
+		vendor.touch();
+	}
+
+	// Tracks the imports of every test file, so we know which ones to run
+	// when a file changes.
+	const graph = new DependencyGraph();
+	function focusAffected(changed: string[]) {
+		const testFiles: string[] = [];
+		for (const group of groups) {
+			testFiles.push(...group.testEntryPoint.testFiles());
+		}
+		const affected = graph.affected(changed, testFiles);
+		if (!affected || affected.size === 0) {
+			log.info("Running all test files");
+			groups.forEach(g => g.testEntryPoint.focus(null));
+			return;
+		}
+		const plural = affected.size === 1 ? "" : "s";
+		log.info(`Running ${affected.size} affected test file${plural}`);
+		groups.forEach(g => g.testEntryPoint.focus(affected));
+	}
+
+	// Karma preprocesses the test files it watches itself again when they
+	// change, without notifying our watcher. Their contents tell whether they
+	// changed since the last build. Returns whether the file changed.
+	const testContents = new Map<string, string>();
+	const changedTestFiles = new Set<string>();
+	function checkTestFile(file: string, content: string) {
+		const previous = testContents.get(file);
+		testContents.set(file, content);
+		if (previous === undefined || previous === content) return false;
+		changedTestFiles.add(file);
+		if (affectedOnly) focusAffected(Array.from(changedTestFiles));
+		return true;
+	}
+
+	// Forgets a deleted (or renamed) test file. Returns whether an entry point
+	// imported it. Its bundle is built again, even when no test file is left
+	// to trigger the build.
+	function removeTestFile(file: string) {
+		typeChecker?.removeFile(file);
+		let removed = false;
+		for (const group of groups) {
+			group.bundlerMap.remove(file);
+			if (group.testEntryPoint.removeFile(file)) {
+				group.bundle.reset();
+				builders.get(group.testEntryPoint)!();
+				removed = true;
+			}
+		}
+		return removed;
+	}
 
 	let watcher: FSWatcher | null = null;
+	let inputWatcher: InputWatcher | null = null;
 	const watchMode = !config.singleRun && !!config.autoWatch;
 	if (watchMode) {
-		// Initialize watcher to listen for changes in basePath so
-		// that we'll be notified of any new files
-		watcher = chokidar.watch([basePath], {
-			ignoreInitial: true,
-			// Ignore dot files and anything from node_modules
-			ignored: /(^|[/\\])(\.|node_modules[/\\])/,
-		});
-
-		const alreadyWatched = config.files.reduce((watched: string[], file) => {
+		// Watch the test file patterns that Karma doesn't watch itself, so that
+		// we'll be notified of any new test files. The files they import are
+		// added from the metafile after every build.
+		const testPatterns: string[] = [];
+		const alreadyWatched: string[] = [];
+		for (const file of config.files) {
 			if (typeof file === "string") {
-				watched.push(file);
+				alreadyWatched.push(file);
 			} else if (file.watched) {
-				watched.push(file.pattern);
+				alreadyWatched.push(file.pattern);
+			} else if (
+				!entryGroup(file.pattern) &&
+				!/^https?:\/\//.test(file.pattern)
+			) {
+				testPatterns.push(file.pattern);
 			}
-			return watched;
-		}, []);
-		watcher.unwatch(alreadyWatched);
+		}
+		const { paths = [], ignored = [] } = watcherOptions;
+
+		watcher = chokidar.watch(
+			[
+				...testPatterns,
+				...paths.map(p => path.resolve(basePath, p)),
+				...(vendor ? vendor.lockfiles : []),
+			],
+			{
+				ignoreInitial: true,
+				ignored: [
+					// Ignore dot files and anything from node_modules
+					/(^|[/\\])(\.|node_modules[/\\])/,
+					// We write the entry points ourselves before every build.
+					...groups.map(g => g.testEntryPoint.file),
+					// Karma watches these itself, we'd trigger a second run.
+					...alreadyWatched,
+					...ignored,
+				],
+			},
+		);
+		inputWatcher = new InputWatcher(watcher);
 
 		// Register shutdown handler
 		emitter.on("exit", done => {
@@ -98,41 +362,152 @@ function createPreprocessor(
 			done();
 		});
 
+		const changed = new Set<string>();
 		const onWatch = debounce(() => {
+			if (affectedOnly && singleBundle) {
+				focusAffected(Array.from(changed));
+			}
+			changed.clear();
+
 			// Dirty the bundle first, to make sure we don't attempt to read an
 			// already compiled result.
-			bundle.dirty();
+			for (const group of groups) {
+				group.bundle.dirty();
+				group.bundlerMap.dirty();
+			}
+			workers.rebuild();
 			emitter.refreshFiles();
 		}, 100);
-		watcher.on("change", onWatch);
-		watcher.on("add", onWatch);
-	}
+		const onChange = (file: string) => {
+			changed.add(path.normalize(file));
+			onWatch();
+		};
+		watcher.on("change", onChange);
+		watcher.on("add", onChange);
+		watcher.on("unlink", (file: string) => {
+			removeTestFile(path.normalize(file));
+			onChange(file);
+		});
 
-	let startTime = 0;
-	function beforeProcess() {
-		startTime = Date.now();
-		log.info(`Compiling to ${testEntryPoint.file}...`);
-	}
-	function afterProcess() {
-		log.info(
-			`Compiling done (${formatTime(Date.now() - startTime)}, with ${formatTime(
-				bundleDelay,
-			)} delay)`,
-		);
+		// Karma removes the test files it watches itself from its file list,
+		// without preprocessing anything. The entry points still import them,
+		// so they are rebuilt and preprocessed again.
+		emitter.on("file_list_modified", (files: { served: KarmaFile[] }) => {
+			const served = new Set(
+				files.served.map(f => path.normalize(f.originalPath)),
+			);
+			const testFiles = new Set<string>();
+			for (const group of groups) {
+				for (const file of group.testEntryPoint.testFiles()) {
+					testFiles.add(file);
+				}
+				for (const fileBundle of group.bundlerMap.values()) {
+					testFiles.add(fileBundle.file);
+				}
+			}
+			let removed = false;
+			for (const file of testFiles) {
+				if (!served.has(file)) removed = removeTestFile(file) || removed;
+			}
+			if (removed) emitter.refreshFiles();
+		});
 	}
 
 	let stopped = false;
 	emitter.on("exit", done => {
 		stopped = true;
-		bundle.stop().then(done);
+		const stops: Promise<unknown>[] = groups.map(g => {
+			g.testEntryPoint.remove();
+			return Promise.all([g.bundle.stop(), g.bundlerMap.stop()]);
+		});
+		stops.push(workers.stop());
+		if (vendor) stops.push(vendor.stop());
+		Promise.all(stops).then(() => done());
 	});
 
-	const buildBundle = debounce(() => {
-		// Prevent service closed message when we are still processing
-		if (stopped) return;
-		testEntryPoint.write();
-		return bundle.write(beforeProcess, afterProcess);
-	}, bundleDelay);
+	if (typeChecker) {
+		const { failOnError = false } = typecheck === true ? {} : typecheck || {};
+		emitter.on("exit", async done => {
+			// A single run waits for the check to finish, so that its errors
+			// are reported.
+			const errors = config.singleRun ? await typeChecker.result() : 0;
+			typeChecker.stop();
+			done(failOnError && errors > 0 ? 1 : 0);
+		});
+	}
+
+	// Each test file is its own bundle, so there's nothing to debounce. We
+	// log the file being compiled instead of the shared entry point.
+	async function buildFile(filePath: string) {
+		let fileStartTime = 0;
+		const fileBundle = groupOf(filePath).bundlerMap.get(filePath);
+		fileBundle.dirty();
+		return fileBundle.write(
+			() => {
+				fileStartTime = Date.now();
+				log.info(`Compiling ${filePath}...`);
+			},
+			() => {
+				log.info(
+					`Compiling ${filePath} done (${formatTime(
+						Date.now() - fileStartTime,
+					)})`,
+				);
+			},
+		);
+	}
+
+	// Every group's bundle is built on its own, after the last test file was
+	// added to it.
+	const builders = new Map(
+		groups.map(({ testEntryPoint, bundle }) => {
+			let startTime = 0;
+			const beforeProcess = () => {
+				startTime = Date.now();
+				log.info(`Compiling to ${testEntryPoint.file}...`);
+			};
+			const afterProcess = () => {
+				log.info(
+					`Compiling done (${formatTime(
+						Date.now() - startTime,
+					)}, with ${formatTime(bundleDelay)} delay)`,
+				);
+			};
+			const buildBundle = debounce(() => {
+				// Prevent service closed message when we are still processing
+				if (stopped) return;
+				changedTestFiles.clear();
+				testEntryPoint.update();
+				return bundle.write(beforeProcess, afterProcess);
+			}, bundleDelay);
+			return [testEntryPoint, buildBundle];
+		}),
+	);
+
+	// Keeps track of the files that went into a build.
+	function afterBuild(entry: string, name: string, item: BundleResult) {
+		const group = entryGroup(entry);
+		debugOutput?.write(
+			name,
+			item,
+			group ? group.testEntryPoint.source() : null,
+		);
+
+		const { metafile } = item;
+		if (!metafile) return;
+		if (item.cached && findWorkers) workers.discover(metafile);
+
+		if (group) {
+			graph.update(metafile);
+			inputWatcher?.update(entry, metafile, group.testEntryPoint.isFocused());
+		} else {
+			inputWatcher?.update(entry, metafile);
+		}
+		reports?.update(name, metafile, item.duration);
+	}
+	workers.listen((file, item) => {
+		afterBuild(file, path.relative(basePath, file), item);
+	});
 
 	return async function preprocess(content, file, done) {
 		// Karma likes to turn a win32 path (C:\foo\bar) into a posix-like path (C:/foo/bar).
@@ -140,18 +515,72 @@ function createPreprocessor(
 		// need to test equality.
 		const filePath = path.normalize(file.originalPath);
 
+		// The vendor bundle needs the imports of every test bundle, so it waits
+		// for their builds.
+		if (vendor && filePath === vendor.file) {
+			const results = await Promise.all(groups.map(g => g.bundle.read()));
+			const item = await vendor.update(results.map(r => r.metafile));
+			debugOutput?.write("vendor", item, vendor.source());
+			if (item.metafile) {
+				reports?.update("vendor", item.metafile, item.duration);
+			}
+			file.sourceMap = item.map;
+			done(null, item.code);
+			return;
+		}
+
+		if (!entryGroup(filePath)) typeChecker?.addFile(filePath);
+
 		// If we're "preprocessing" the bundle file, all we need is to wait for
 		// the bundle to be generated for it.
-		if (filePath === testEntryPoint.file) {
-			const item = await bundle.read();
+		const group = entryGroup(filePath);
+		if (group) {
+			// Test files trigger the build of their group. A group that no test
+			// file matched (yet) is built by its entry point, so that Karma
+			// doesn't wait for it forever.
+			if (group.testEntryPoint.isEmpty()) {
+				builders.get(group.testEntryPoint)!();
+			}
+			const item = await group.bundle.read();
+			const index = groups.indexOf(group);
+			const name = group.bundle === bundle ? "bundle" : `bundle-${index + 1}`;
+			afterBuild(filePath, name, item);
 			file.sourceMap = item.map;
 			done(null, item.code);
 			return;
 		}
 
-		testEntryPoint.addFile(filePath);
-		bundle.dirty();
-		buildBundle();
+		if (!singleBundle) {
+			const item = await buildFile(filePath);
+			inputWatcher?.keepWatching(filePath);
+			afterBuild(filePath, path.relative(basePath, filePath), item);
+			if (isModule) file.type = "module";
+			file.sourceMap = item.map;
+			done(null, item.code);
+			return;
+		}
+
+		inputWatcher?.keepWatching(filePath);
+		const changed = watchMode && checkTestFile(filePath, content);
+		const { testEntryPoint: entryPoint, bundle: entryBundle } =
+			groupOf(filePath);
+		entryPoint.addFile(filePath);
+		entryBundle.dirty();
+		builders.get(entryPoint)!();
+
+		// Karma only preprocesses the changed file, so the entry point is
+		// changed too once the bundle is rebuilt. Karma batches both changes
+		// into one run. The vendor bundle needs the packages the test file may
+		// have started to import.
+		if (changed) {
+			await entryBundle.read();
+			entryPoint.touch();
+			emitter.refreshFile(entryPoint.file);
+			if (vendor) {
+				vendor.touch();
+				emitter.refreshFile(vendor.file);
+			}
+		}
 
 		// Turn the file into a `dom` type with empty contents to get Karma to
 		// inject the contents as HTML text. Since the contents are empty, it
@@ -166,31 +595,134 @@ createPreprocessor.$inject = [
 	"karmaEsbuildLogger",
 	"karmaEsbuildEntryPoint",
 	"karmaEsbuildBundler",
+	"karmaEsbuildBundlerMap",
+	"karmaEsbuildReports",
+	"karmaEsbuildOverrides",
+	"karmaEsbuildTypeChecker",
+	"karmaEsbuildWorkers",
+	"karmaEsbuildDebugOutput",
+	"karmaEsbuildVendor",
+];
+
+function createTransformPreprocessor(
+	log: Log,
+	esbuildConfig: esbuild.BuildOptions,
+): KarmaPreprocess {
+	return async function preprocess(content, file, done) {
+		const filePath = path.normalize(file.originalPath);
+		try {
+			const { code, map, warnings } = await transformFile(
+				content,
+				filePath,
+				esbuildConfig,
+			);
+			warnings.forEach(w => log.warn(formatMessage(w, "warning")));
+			file.sourceMap = map;
+			done(null, code);
+		} catch (err) {
+			const message = transformError(err);
+			log.error(message);
+			// Like a failed build, the error is thrown when the script loads.
+			done(null, `throw new Error(${JSON.stringify(message)});`);
+		}
+	};
+}
+createTransformPreprocessor.$inject = [
+	"karmaEsbuildLogger",
+	"karmaEsbuildConfig",
 ];
 
 function createSourcemapMiddleware(
-	testEntryPoint: TestEntryPoint,
+	config: KarmaConfig,
 	bundle: Bundle,
+	bundlerMap: BundlerMap,
+	reports: BuildReports | null,
+	overrideGroups: BuildGroup[],
+	workers: Workers,
+	vendor: Vendor | null,
 ) {
+	const basePath = getBasePath(config);
+	const { singleBundle = true } = config.esbuild || {};
+
 	return async function (
 		req: IncomingMessage,
 		res: ServerResponse,
 		next: () => void,
 	) {
-		const match = /^\/absolute([^?#]*)\.map(\?|#|$)/.exec(req.url || "");
+		const url = req.url || "";
+		if (reports && /^\/esbuild\/report(\.json)?(\?|#|$)/.test(url)) {
+			if (/\.json(\?|#|$)/.test(url)) {
+				res.setHeader("Content-Type", "application/json");
+				res.end(JSON.stringify(reports.metafiles(), null, 2));
+			} else {
+				res.setHeader("Content-Type", "text/plain; charset=utf-8");
+				res.end(reports.summary());
+			}
+			return;
+		}
+
+		if (url.startsWith(`${WORKER_PREFIX}/`)) {
+			const file = workerFile(url);
+			const isMap = file.endsWith(".map");
+			const worker = await workers.get(isMap ? file.slice(0, -4) : file);
+			if (!worker) return next();
+			const { code, outputs } = await worker.read();
+			res.setHeader(
+				"Content-Type",
+				isMap ? contentType(file) : "application/javascript",
+			);
+			res.end(isMap ? outputs.get(file) : code);
+			return;
+		}
+
+		const match = /^\/(absolute|base)([^?#]*)(\?|#|$)/.exec(url);
 		if (!match) return next();
 
-		const filePath = path.normalize(match[1]);
-		if (filePath !== testEntryPoint.file) return next();
+		// Files inside of basePath are served by Karma relative to `/base`.
+		const filePath =
+			match[1] === "base"
+				? path.join(basePath, match[2])
+				: path.normalize(match[2]);
 
-		const item = await bundle.read();
-		res.setHeader("Content-Type", "application/json");
-		res.end(JSON.stringify(item.map, null, 2));
+		// Entry points are served by Karma itself, so only their maps reach
+		// us. Every other output is served next to (or below) the entry point
+		// that emitted it.
+		const candidates: Bundle[] = [];
+		for (const group of [{ bundle, bundlerMap }, ...overrideGroups]) {
+			if (singleBundle) {
+				candidates.push(group.bundle);
+			} else {
+				candidates.push(...group.bundlerMap.values());
+			}
+		}
+		candidates.push(...workers.values());
+		if (vendor) candidates.push(vendor.bundle);
+		const bundles = candidates.filter(b =>
+			filePath.startsWith(path.dirname(b.file) + path.sep),
+		);
+		for (const b of bundles) {
+			if (b.file === filePath) continue;
+
+			const { outputs } = await b.read();
+			const contents = outputs.get(filePath);
+			if (contents === undefined) continue;
+
+			res.setHeader("Content-Type", contentType(filePath));
+			// Node 12 only writes Buffers, not the Uint8Arrays of esbuild.
+			res.end(typeof contents === "string" ? contents : Buffer.from(contents));
+			return;
+		}
+		next();
 	};
 }
 createSourcemapMiddleware.$inject = [
-	"karmaEsbuildEntryPoint",
+	"config",
 	"karmaEsbuildBundler",
+	"karmaEsbuildBundlerMap",
+	"karmaEsbuildReports",
+	"karmaEsbuildOverrides",
+	"karmaEsbuildWorkers",
+	"karmaEsbuildVendor",
 ];
 
 function createEsbuildLog(logger: KarmaLogger) {
@@ -198,45 +730,376 @@ function createEsbuildLog(logger: KarmaLogger) {
 }
 createEsbuildLog.$inject = ["logger"];
 
-function createEsbuildConfig(
-	config: karma.ConfigOptions & {
-		esbuild?: esbuild.BuildOptions & { bundleDelay?: number };
-	},
+// The plugins this plugin adds to the user's esbuild options.
+interface PluginOptions {
+	coverage: EsbuildConfig["coverage"];
+	mocks: Mocks;
+	// Load the packages from the vendor bundle.
+	vendor: boolean;
+	// Called for every worker a build finds. Workers aren't looked for
+	// without it.
+	onWorker: ((file: string) => void) | null;
+}
+
+// Turns the user's esbuild options into the options every build uses.
+function buildOptions(
+	basePath: string,
+	userConfig: esbuild.BuildOptions,
+	{ coverage, mocks, vendor, onWorker }: PluginOptions,
 ) {
-	const basePath = getBasePath(config);
-	const { bundleDelay, ...userConfig } = config.esbuild || {};
+	userConfig = { ...userConfig };
 
 	// Use some trickery to get the root in both posix and win32. win32 could
 	// have multiple drive paths as root, so find root relative to the basePath.
 	userConfig.outdir = path.resolve(basePath, "/");
+
+	// Mocks come first, so that modules are replaced before any other plugin
+	// resolves them.
+	userConfig.plugins = [
+		...(Object.keys(mocks).length > 0
+			? [setPluginKey(createMockPlugin(basePath, mocks), { basePath, mocks })]
+			: []),
+		...(userConfig.plugins || []),
+		// After the user's plugins, which may resolve packages themselves.
+		...(vendor ? [createVendorPlugin(userConfig)] : []),
+		...(onWorker ? [createWorkerPlugin(userConfig, onWorker)] : []),
+	];
+
+	if (coverage) {
+		// User plugins come first, so that their loaders take precedence.
+		const options = coverage === true ? {} : coverage;
+		userConfig.plugins = [
+			...(userConfig.plugins || []),
+			setPluginKey(createCoveragePlugin(basePath, options, userConfig), {
+				basePath,
+				options,
+			}),
+		];
+	}
 	return userConfig;
 }
-createEsbuildConfig.$inject = ["config"];
+
+// Separates the options of this plugin from the ones passed to esbuild.
+function splitConfig(config: KarmaConfig) {
+	const {
+		bundleDelay,
+		singleBundle,
+		coverage,
+		affectedOnly,
+		watcher,
+		report,
+		overrides,
+		cache,
+		onBuildStart,
+		onBuildEnd,
+		typecheck,
+		shard,
+		lazy,
+		failOnWarning,
+		mocks = {},
+		outputDir,
+		vendor,
+		workers,
+		...rest
+	} = config.esbuild || {};
+	const userConfig = knownOptions(rest);
+	return { coverage, mocks, overrides, userConfig };
+}
+
+// Only created once, so the config is validated once at startup.
+function createEsbuildConfig(config: KarmaConfig, log: Log, workers: Workers) {
+	validateConfig(config.esbuild || {}, log);
+	const basePath = getBasePath(config);
+	const { coverage, mocks, userConfig } = splitConfig(config);
+	return buildOptions(basePath, userConfig, {
+		coverage,
+		mocks,
+		vendor: isVendored(config),
+		onWorker: workerHandler(config, file => workers.add(file)),
+	});
+}
+createEsbuildConfig.$inject = [
+	"config",
+	"karmaEsbuildLogger",
+	"karmaEsbuildWorkers",
+];
+
+// Workers are built with the shared options, even when an override applies
+// to the test file that starts them.
+function createEsbuildWorkers(
+	config: KarmaConfig,
+	log: Log,
+	buildCache: BuildCache | null,
+	events: BuildEvents,
+) {
+	const basePath = getBasePath(config);
+	const { coverage, mocks, userConfig } = splitConfig(config);
+	const { failOnWarning } = config.esbuild || {};
+	const workers: Workers = new Workers(
+		log,
+		buildOptions(basePath, userConfig, {
+			coverage,
+			mocks,
+			vendor: false,
+			// Workers can start workers of their own.
+			onWorker: workerHandler(config, file => workers.add(file)),
+		}),
+		{ cache: buildCache, events, failOnWarning },
+	);
+	return workers;
+}
+createEsbuildWorkers.$inject = [
+	"config",
+	"karmaEsbuildLogger",
+	"karmaEsbuildCache",
+	"karmaEsbuildEvents",
+];
+
+// The packages are built with the shared options, without coverage or
+// mocks, as those only apply to the test bundles.
+function createEsbuildVendor(
+	config: KarmaConfig,
+	log: Log,
+	buildCache: BuildCache | null,
+	events: BuildEvents,
+	workers: Workers,
+) {
+	const basePath = getBasePath(config);
+	const { vendor, failOnWarning } = config.esbuild || {};
+	if (!vendor) return null;
+	if (!isVendored(config)) {
+		log.error("The vendor bundle requires singleBundle, bundling all packages");
+		return null;
+	}
+	const { userConfig } = splitConfig(config);
+	return new Vendor(
+		log,
+		basePath,
+		buildOptions(basePath, userConfig, {
+			coverage: false,
+			mocks: {},
+			vendor: false,
+			onWorker: workerHandler(config, file => workers.add(file)),
+		}),
+		vendor === true ? {} : vendor,
+		{ cache: buildCache, events, failOnWarning },
+	);
+}
+createEsbuildVendor.$inject = [
+	"config",
+	"karmaEsbuildLogger",
+	"karmaEsbuildCache",
+	"karmaEsbuildEvents",
+	"karmaEsbuildWorkers",
+];
+
+function createEsbuildOverrides(
+	config: KarmaConfig,
+	log: Log,
+	buildCache: BuildCache | null,
+	events: BuildEvents,
+	shard: Shard | null,
+	workers: Workers,
+) {
+	const basePath = getBasePath(config);
+	const { coverage, mocks, overrides = [], userConfig } = splitConfig(config);
+	const { failOnWarning } = config.esbuild || {};
+	const bundleOptions = { cache: buildCache, events, failOnWarning };
+
+	return overrides.map(({ files, options, mocks: scoped }, i) => {
+		const merged = buildOptions(
+			basePath,
+			mergeOptions(userConfig, knownOptions(options || {})),
+			{
+				coverage,
+				mocks: { ...mocks, ...scoped },
+				vendor: isVendored(config),
+				onWorker: workerHandler(config, file => workers.add(file)),
+			},
+		);
+		const testEntryPoint = new TestEntryPoint({
+			shard,
+			name: `bundle-${i + 1}`,
+			lazy: isLazy(config),
+			basePath,
+		});
+		return new BuildGroup(
+			overrideMatcher(basePath, files),
+			testEntryPoint,
+			new Bundle(testEntryPoint.file, log, merged, {
+				...bundleOptions,
+				entryPoint: testEntryPoint,
+			}),
+			new BundlerMap(log, merged, bundleOptions),
+		);
+	});
+}
+createEsbuildOverrides.$inject = [
+	"config",
+	"karmaEsbuildLogger",
+	"karmaEsbuildCache",
+	"karmaEsbuildEvents",
+	"karmaEsbuildShard",
+	"karmaEsbuildWorkers",
+];
 
 function createEsbuildBundler(
+	karmaConfig: KarmaConfig,
 	testEntryPoint: TestEntryPoint,
 	log: Log,
 	config: esbuild.BuildOptions,
+	buildCache: BuildCache | null,
+	events: BuildEvents,
 ) {
-	return new Bundle(testEntryPoint.file, log, config);
+	const { failOnWarning } = karmaConfig.esbuild || {};
+	return new Bundle(testEntryPoint.file, log, config, {
+		cache: buildCache,
+		events,
+		entryPoint: testEntryPoint,
+		failOnWarning,
+	});
 }
 createEsbuildBundler.$inject = [
+	"config",
 	"karmaEsbuildEntryPoint",
 	"karmaEsbuildLogger",
 	"karmaEsbuildConfig",
+	"karmaEsbuildCache",
+	"karmaEsbuildEvents",
+];
+
+function createEsbuildBundlerMap(
+	karmaConfig: KarmaConfig,
+	log: Log,
+	config: esbuild.BuildOptions,
+	buildCache: BuildCache | null,
+	events: BuildEvents,
+) {
+	const { failOnWarning } = karmaConfig.esbuild || {};
+	return new BundlerMap(log, config, {
+		cache: buildCache,
+		events,
+		failOnWarning,
+	});
+}
+createEsbuildBundlerMap.$inject = [
+	"config",
+	"karmaEsbuildLogger",
+	"karmaEsbuildConfig",
+	"karmaEsbuildCache",
+	"karmaEsbuildEvents",
+];
+
+function createEsbuildCache(config: KarmaConfig) {
+	const basePath = getBasePath(config);
+	const { cache } = config.esbuild || {};
+	if (!cache) return null;
+	return new BuildCache(path.resolve(basePath, cache));
+}
+createEsbuildCache.$inject = ["config"];
+
+function createEsbuildEvents(
+	config: KarmaConfig,
+	emitter: karma.Server,
+	log: Log,
+) {
+	const { onBuildStart, onBuildEnd } = config.esbuild || {};
+	return new BuildEvents(emitter, log, { onBuildStart, onBuildEnd });
+}
+createEsbuildEvents.$inject = ["config", "emitter", "karmaEsbuildLogger"];
+
+function createTypeChecker(config: KarmaConfig, log: Log) {
+	const basePath = getBasePath(config);
+	const { typecheck } = config.esbuild || {};
+	if (!typecheck) return null;
+	const options = typecheck === true ? {} : typecheck;
+	const watchMode = !config.singleRun && !!config.autoWatch;
+	return new TypeChecker(log, basePath, options, watchMode);
+}
+createTypeChecker.$inject = ["config", "karmaEsbuildLogger"];
+
+function createDebugOutput(config: KarmaConfig, log: Log) {
+	const basePath = getBasePath(config);
+	const { outputDir, metafile = false } = config.esbuild || {};
+	if (!outputDir) return null;
+	const dir = path.resolve(basePath, outputDir);
+	log.info(`Writing the bundles to ${dir}`);
+	return new DebugOutput(dir, !!metafile, log);
+}
+createDebugOutput.$inject = ["config", "karmaEsbuildLogger"];
+
+function createEsbuildReports(config: KarmaConfig, log: Log) {
+	const basePath = getBasePath(config);
+	const { report } = config.esbuild || {};
+	if (!report) return null;
+	return new BuildReports(path.resolve(basePath, report), basePath, log);
+}
+createEsbuildReports.$inject = ["config", "karmaEsbuildLogger"];
+
+function createTestEntryPoint(
+	config: KarmaConfig,
+	log: Log,
+	shard: Shard | null,
+) {
+	const basePath = getBasePath(config);
+	const { lazy = false } = config.esbuild || {};
+	if (lazy && !isLazy(config)) {
+		log.error("Lazy imports require singleBundle, importing all test files");
+	}
+	removeStaleEntryPoints();
+	return new TestEntryPoint({ shard, lazy: isLazy(config), basePath });
+}
+createTestEntryPoint.$inject = [
+	"config",
+	"karmaEsbuildLogger",
+	"karmaEsbuildShard",
 ];
 
-function createTestEntryPoint() {
-	return new TestEntryPoint();
+function createShard(config: KarmaConfig, log: Log) {
+	const basePath = getBasePath(config);
+	const { shard: options = {}, singleBundle = true } = config.esbuild || {};
+	const {
+		index = Number(process.env.KARMA_ESBUILD_SHARD_INDEX || 1),
+		total = Number(process.env.KARMA_ESBUILD_SHARD_TOTAL || 1),
+		timings: timingsFile,
+	} = options;
+	if (total === 1 && index === 1) return null;
+	if (!singleBundle) {
+		log.error("Sharding requires singleBundle, running all test files");
+		return null;
+	}
+
+	let timings = null;
+	if (timingsFile) {
+		const file = path.resolve(basePath, timingsFile);
+		try {
+			timings = JSON.parse(fs.readFileSync(file, "utf-8"));
+		} catch (err) {
+			log.error(`Could not read timings from ${file}: ${err.message}`);
+		}
+	}
+	log.info(`Running shard ${index} of ${total}`);
+	return new Shard(basePath, index, total, timings);
 }
-createTestEntryPoint.$inject = [] as const;
+createShard.$inject = ["config", "karmaEsbuildLogger"];
 
 module.exports = {
 	"preprocessor:esbuild": ["factory", createPreprocessor],
+	"preprocessor:esbuild-transform": ["factory", createTransformPreprocessor],
 	"middleware:esbuild": ["factory", createSourcemapMiddleware],
 
 	karmaEsbuildLogger: ["factory", createEsbuildLog],
 	karmaEsbuildConfig: ["factory", createEsbuildConfig],
 	karmaEsbuildBundler: ["factory", createEsbuildBundler],
+	karmaEsbuildBundlerMap: ["factory", createEsbuildBundlerMap],
+	karmaEsbuildReports: ["factory", createEsbuildReports],
+	karmaEsbuildOverrides: ["factory", createEsbuildOverrides],
+	karmaEsbuildCache: ["factory", createEsbuildCache],
+	karmaEsbuildEvents: ["factory", createEsbuildEvents],
+	karmaEsbuildTypeChecker: ["factory", createTypeChecker],
 	karmaEsbuildEntryPoint: ["factory", createTestEntryPoint],
+	karmaEsbuildShard: ["factory", createShard],
+	karmaEsbuildWorkers: ["factory", createEsbuildWorkers],
+	karmaEsbuildDebugOutput: ["factory", createDebugOutput],
+	karmaEsbuildVendor: ["factory", createEsbuildVendor],
 };
@@ -0,0 +1,51 @@
+import { hasNamespace } from "./utils";
+
+import type { FSWatcher } from "chokidar";
+import type { Metafile } from "./metafile";
+
+// InputWatcher keeps the watcher in sync with the inputs of every build, as
+// reported by esbuild's metafile. Files that are no longer part of any build
+// stop being watched.
+export class InputWatcher {
+	private declare watcher: FSWatcher;
+	// The inputs of the latest build, keyed by the bundle's entry file.
+	private inputs = new Map<string, Set<string>>();
+	private watched = new Set<string>();
+	// Files that must stay watched even when no build imports them, like the
+	// test files themselves.
+	private keep = new Set<string>();
+
+	constructor(watcher: FSWatcher) {
+		this.watcher = watcher;
+	}
+
+	keepWatching(file: string) {
+		this.keep.add(file);
+	}
+
+	// A partial build only includes some of the test files (see
+	// `affectedOnly`), so its inputs are added to the previous ones instead
+	// of replacing them.
+	update(entry: string, metafile: Metafile, partial = false) {
+		const inputs = partial
+			? new Set(this.inputs.get(entry))
+			: new Set<string>();
+		for (const input of Object.keys(metafile.inputs)) {
+			if (!hasNamespace(input)) inputs.add(input);
+		}
+		this.inputs.set(entry, inputs);
+
+		const next = new Set<string>();
+		for (const files of this.inputs.values()) {
+			files.forEach(file => next.add(file));
+		}
+
+		const added = Array.from(next).filter(file => !this.watched.has(file));
+		const removed = Array.from(this.watched).filter(
+			file => !next.has(file) && !this.keep.has(file),
+		);
+		if (added.length > 0) this.watcher.add(added);
+		if (removed.length > 0) this.watcher.unwatch(removed);
+		this.watched = next;
+	}
+}
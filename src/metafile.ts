@@ -0,0 +1,68 @@
+import * as path from "path";
+import * as esbuild from "esbuild";
+import { hasNamespace } from "./utils";
+
+export interface Metafile {
+	inputs: {
+		[path: string]: {
+			bytes: number;
+			imports: { path: string }[];
+		};
+	};
+	outputs: {
+		[path: string]: {
+			bytes: number;
+			inputs: { [path: string]: { bytesInOutput: number } };
+		};
+	};
+}
+
+// esbuild 0.9 turned `metafile` from an output path into a boolean, and
+// returns the metafile on the build result instead of as an output file.
+const legacyMetafile = /^0\.8\./.test(esbuild.version);
+
+// The option as typed by the installed release. Newer ones take a boolean.
+type MetafileOption = esbuild.BuildOptions["metafile"];
+
+export function metafileOption(outdir: string, file: string): MetafileOption {
+	if (!legacyMetafile) return true as unknown as MetafileOption;
+	return path.join(outdir, `${path.basename(file)}.meta.json`);
+}
+
+export function isMetafileOutput(outdir: string, file: string, out: string) {
+	return legacyMetafile && out === metafileOption(outdir, file);
+}
+
+// Resolves every path in the metafile to an absolute path. esbuild writes
+// them relative to the working directory. Namespaced paths are kept as is.
+export function readMetafile(
+	result: esbuild.BuildResult & { outputFiles: esbuild.OutputFile[] },
+	outdir: string,
+	file: string,
+): Metafile {
+	let raw: Metafile;
+	if (legacyMetafile) {
+		const out = metafileOption(outdir, file);
+		raw = JSON.parse(result.outputFiles.find(f => f.path === out)!.text);
+	} else {
+		raw = (result as typeof result & { metafile: Metafile }).metafile;
+	}
+
+	const cwd = process.cwd();
+	const resolve = (p: string) => (hasNamespace(p) ? p : path.resolve(cwd, p));
+	const metafile: Metafile = { inputs: {}, outputs: {} };
+	for (const [input, { bytes, imports }] of Object.entries(raw.inputs)) {
+		metafile.inputs[resolve(input)] = {
+			bytes,
+			imports: imports.map(i => ({ path: resolve(i.path) })),
+		};
+	}
+	for (const [output, { bytes, inputs }] of Object.entries(raw.outputs)) {
+		const resolved: Metafile["outputs"][string]["inputs"] = {};
+		for (const [input, value] of Object.entries(inputs)) {
+			resolved[resolve(input)] = value;
+		}
+		metafile.outputs[resolve(output)] = { bytes, inputs: resolved };
+	}
+	return metafile;
+}
@@ -0,0 +1,88 @@
+import * as path from "path";
+import * as fs from "fs";
+import minimatch from "minimatch";
+
+import type esbuild from "esbuild";
+
+/**
+ * Maps the modules to replace to their replacement files (relative to
+ * basePath). A module is either a package, like `"lodash"`, a relative path
+ * (resolved against basePath) like `"./src/api"`, or a glob (relative to
+ * basePath) of the files to replace, like `"src/api/*.ts"`.
+ */
+export type Mocks = Record<string, string>;
+
+const extensions = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".json"];
+
+function isFile(file: string) {
+	try {
+		return fs.statSync(file).isFile();
+	} catch {
+		return false;
+	}
+}
+
+// Finds the file a relative import points to, the way esbuild would for
+// the usual extensions.
+function resolveFile(file: string) {
+	if (isFile(file)) return file;
+	for (const candidate of [
+		...extensions.map(ext => file + ext),
+		...extensions.map(ext => path.join(file, `index${ext}`)),
+	]) {
+		if (isFile(candidate)) return candidate;
+	}
+	return null;
+}
+
+// Replaces modules with test doubles while they're resolved. The
+// replacements themselves can still import the modules they replace.
+export function createMockPlugin(
+	basePath: string,
+	mocks: Mocks,
+): esbuild.Plugin {
+	const replacements = new Map(
+		Object.entries(mocks).map(([module, file]) => [
+			module,
+			path.resolve(basePath, file),
+		]),
+	);
+	const mockFiles = new Set(replacements.values());
+
+	// Relative modules are the files they point to from basePath, no matter
+	// which file imports them.
+	const isRelative = (specifier: string) => /^\.\.?(\/|$)/.test(specifier);
+	const files = new Map<string, string>();
+	for (const module of replacements.keys()) {
+		if (!isRelative(module)) continue;
+		const file = path.resolve(basePath, module);
+		files.set(module, resolveFile(file) || file);
+	}
+
+	function replacement(specifier: string, resolveDir: string) {
+		if (!isRelative(specifier) && !path.isAbsolute(specifier)) {
+			return replacements.get(specifier) || null;
+		}
+		const file = resolveFile(path.resolve(resolveDir, specifier));
+		if (!file) return null;
+		const relative = path.relative(basePath, file).replace(/\\/g, "/");
+		for (const [module, replacement] of replacements) {
+			const matches = files.has(module)
+				? files.get(module) === file
+				: minimatch(relative, module, { dot: true });
+			if (matches) return replacement;
+		}
+		return null;
+	}
+
+	return {
+		name: "karma-esbuild-mocks",
+		setup(build) {
+			build.onResolve({ filter: /.*/ }, args => {
+				if (mockFiles.has(args.importer)) return;
+				const file = replacement(args.path, args.resolveDir);
+				if (file) return { path: file };
+			});
+		},
+	};
+}
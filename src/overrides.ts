@@ -0,0 +1,63 @@
+import * as path from "path";
+import minimatch from "minimatch";
+
+import type esbuild from "esbuild";
+import type { Bundle } from "./bundle";
+import type { BundlerMap } from "./bundler-map";
+import type { TestEntryPoint } from "./test-entry-point";
+import type { Mocks } from "./mocks";
+
+export interface Override {
+	/** Globs (relative to basePath) of the test files built with `options`. */
+	files: string | string[];
+	/** Options merged over the shared `esbuild` options. */
+	options?: esbuild.BuildOptions;
+	/** Mocks merged over the shared `mocks`, only for these test files. */
+	mocks?: Mocks;
+}
+
+// Override options replace the shared ones, except for `define` and
+// `loader`, which are merged, and `plugins`, which are added after the
+// shared plugins.
+export function mergeOptions(
+	base: esbuild.BuildOptions,
+	override: esbuild.BuildOptions = {},
+): esbuild.BuildOptions {
+	return {
+		...base,
+		...override,
+		define: { ...base.define, ...override.define },
+		loader: { ...base.loader, ...override.loader },
+		plugins: [...(base.plugins || []), ...(override.plugins || [])],
+	};
+}
+
+export function overrideMatcher(basePath: string, files: string | string[]) {
+	const patterns = typeof files === "string" ? [files] : files;
+	return (file: string) => {
+		const relative = path.relative(basePath, file).replace(/\\/g, "/");
+		return patterns.some(p => minimatch(relative, p, { dot: true }));
+	};
+}
+
+// BuildGroup holds the entry point and bundles of the test files that are
+// built with the same options. Test files matching an override are built
+// separately from the rest, so each group is its own script on the page.
+export class BuildGroup {
+	declare readonly matches: (file: string) => boolean;
+	declare readonly testEntryPoint: TestEntryPoint;
+	declare readonly bundle: Bundle;
+	declare readonly bundlerMap: BundlerMap;
+
+	constructor(
+		matches: (file: string) => boolean,
+		testEntryPoint: TestEntryPoint,
+		bundle: Bundle,
+		bundlerMap: BundlerMap,
+	) {
+		this.matches = matches;
+		this.testEntryPoint = testEntryPoint;
+		this.bundle = bundle;
+		this.bundlerMap = bundlerMap;
+	}
+}
@@ -0,0 +1,116 @@
+import * as path from "path";
+import * as fs from "fs";
+import { formatBytes, formatTime, hasNamespace } from "./utils";
+
+import type { Metafile } from "./metafile";
+import type { Log } from "./utils";
+
+const LARGEST_INPUTS = 10;
+
+// Groups inputs by the package they come from, so that accidentally bundled
+// dependencies stand out.
+function packageName(file: string) {
+	const match = /[/\\]node_modules[/\\]((?:@[^/\\]+[/\\])?[^/\\]+)/.exec(file);
+	if (!match) return "(project)";
+	return match[1].replace(/\\/g, "/");
+}
+
+function table(rows: Array<[string, number]>) {
+	const sizes = rows.map(([, bytes]) => formatBytes(bytes));
+	const width = Math.max(0, ...sizes.map(s => s.length));
+	return rows.map(([name], i) => `  ${sizes[i].padStart(width)}  ${name}`);
+}
+
+export function summarize(
+	name: string,
+	basePath: string,
+	metafile: Metafile,
+	duration: number,
+) {
+	let total = 0;
+	const inputs = new Map<string, number>();
+	for (const [output, { bytes, inputs: contributions }] of Object.entries(
+		metafile.outputs,
+	)) {
+		if (output.endsWith(".map")) continue;
+		total += bytes;
+		for (const [input, { bytesInOutput }] of Object.entries(contributions)) {
+			inputs.set(input, (inputs.get(input) || 0) + bytesInOutput);
+		}
+	}
+
+	const packages = new Map<string, number>();
+	for (const [input, bytes] of inputs) {
+		const pkg = packageName(input);
+		packages.set(pkg, (packages.get(pkg) || 0) + bytes);
+	}
+
+	const bySize = (a: [string, number], b: [string, number]) => b[1] - a[1];
+	const largest = Array.from(inputs)
+		.sort(bySize)
+		.slice(0, LARGEST_INPUTS)
+		.map(([input, bytes]): [string, number] => [
+			hasNamespace(input) ? input : path.relative(basePath, input),
+			bytes,
+		]);
+
+	return [
+		`Bundle report for ${name} (built in ${formatTime(duration)})`,
+		"",
+		`Total output size: ${formatBytes(total)}`,
+		"",
+		"Largest inputs:",
+		...table(largest),
+		"",
+		"Packages:",
+		...table(Array.from(packages).sort(bySize)),
+		"",
+	].join("\n");
+}
+
+// BuildReports keeps the latest report of every bundle, and writes them to
+// the report directory after each build.
+export class BuildReports {
+	private declare dir: string;
+	private declare basePath: string;
+	private declare log: Log;
+	private reports = new Map<string, { summary: string; metafile: Metafile }>();
+
+	constructor(dir: string, basePath: string, log: Log) {
+		this.dir = dir;
+		this.basePath = basePath;
+		this.log = log;
+	}
+
+	update(name: string, metafile: Metafile, duration: number) {
+		const summary = summarize(name, this.basePath, metafile, duration);
+		this.reports.set(name, { summary, metafile });
+
+		// The report is still served by the middleware when it can't be
+		// written.
+		const base = path.join(this.dir, name.replace(/[/\\]/g, "_"));
+		try {
+			fs.mkdirSync(this.dir, { recursive: true });
+			fs.writeFileSync(
+				`${base}.metafile.json`,
+				JSON.stringify(metafile, null, 2),
+			);
+			fs.writeFileSync(`${base}.report.txt`, summary);
+		} catch (err) {
+			this.log.error(`Failed to write the report of ${name}: ${err.message}`);
+		}
+	}
+
+	summary() {
+		const summaries = Array.from(this.reports.values(), r => r.summary);
+		return summaries.join("\n") || "No build has finished yet.\n";
+	}
+
+	metafiles() {
+		const metafiles: Record<string, Metafile> = {};
+		for (const [name, { metafile }] of this.reports) {
+			metafiles[name] = metafile;
+		}
+		return metafiles;
+	}
+}
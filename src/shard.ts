@@ -0,0 +1,83 @@
+import * as path from "path";
+
+export interface ShardOptions {
+	/**
+	 * The shard to run, starting at 1. Defaults to the
+	 * `KARMA_ESBUILD_SHARD_INDEX` environment variable.
+	 */
+	index?: number;
+	/**
+	 * The number of shards. Defaults to the `KARMA_ESBUILD_SHARD_TOTAL`
+	 * environment variable.
+	 */
+	total?: number;
+	/**
+	 * A JSON file (relative to basePath) with the duration of every test file
+	 * from a previous run, keyed by its path relative to basePath. Shards are
+	 * balanced by duration instead of by the number of test files.
+	 */
+	timings?: string;
+}
+
+// Shard splits the test files between several Karma processes. Every
+// process sorts the files the same way, so each file runs in exactly one
+// shard.
+export class Shard {
+	declare readonly index: number;
+	declare readonly total: number;
+	private declare basePath: string;
+	private declare timings: Record<string, number> | null;
+
+	constructor(
+		basePath: string,
+		index: number,
+		total: number,
+		timings: Record<string, number> | null = null,
+	) {
+		if (!Number.isInteger(total) || total < 1) {
+			throw new Error(`Invalid shard total: ${total}`);
+		}
+		if (!Number.isInteger(index) || index < 1 || index > total) {
+			throw new Error(`Invalid shard index: ${index} of ${total}`);
+		}
+		this.basePath = basePath;
+		this.index = index;
+		this.total = total;
+		this.timings = timings;
+	}
+
+	// Returns the files that belong to this shard.
+	select(files: Iterable<string>) {
+		const byName = Array.from(files, file => ({
+			file,
+			name: path.relative(this.basePath, file).replace(/\\/g, "/"),
+		})).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+		const { timings } = this;
+		if (!timings) {
+			return new Set(
+				byName
+					.filter((_, i) => i % this.total === this.index - 1)
+					.map(f => f.file),
+			);
+		}
+
+		// Hand out the slowest files first, each to the shard with the least
+		// work so far. Files without timing data count as an average one.
+		const known = byName.filter(f => f.name in timings);
+		const average =
+			known.reduce((sum, f) => sum + timings[f.name], 0) / known.length || 1;
+		const weighted = byName
+			.map(f => ({ ...f, duration: timings[f.name] ?? average }))
+			.sort((a, b) => b.duration - a.duration);
+
+		const totals = new Array<number>(this.total).fill(0);
+		const selected = new Set<string>();
+		for (const { file, duration } of weighted) {
+			const shard = totals.indexOf(Math.min(...totals));
+			totals[shard] += duration;
+			if (shard === this.index - 1) selected.add(file);
+		}
+		return selected;
+	}
+}
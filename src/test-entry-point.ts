@@ -1,39 +1,247 @@
 import * as os from "os";
 import * as path from "path";
 import * as fs from "fs";
-import { random } from "./utils";
+
+import type esbuild from "esbuild";
+import type { Shard } from "./shard";
+
+// Every Karma process keeps its placeholders in a directory named after its
+// pid, so that concurrent runs don't remove each other's.
+const root = path.join(os.tmpdir(), "karma-esbuild");
+
+export const ENTRY_NAMESPACE = "karma-esbuild-entry";
+
+function isRunning(pid: number) {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (err) {
+		// EPERM means the process exists, but belongs to another user.
+		return err.code === "EPERM";
+	}
+}
+
+// Removes the placeholders left behind by Karma processes that crashed
+// before they could clean up.
+export function removeStaleEntryPoints() {
+	let dirs: string[];
+	try {
+		dirs = fs.readdirSync(root);
+	} catch {
+		return;
+	}
+	for (const dir of dirs) {
+		const pid = Number(dir);
+		if (!Number.isInteger(pid) || isRunning(pid)) continue;
+		// The directory only holds placeholders. Node 12 lacks `fs.rmSync`,
+		// and newer releases deprecate a recursive `fs.rmdirSync`.
+		const stale = path.join(root, dir);
+		try {
+			for (const file of fs.readdirSync(stale)) {
+				fs.unlinkSync(path.join(stale, file));
+			}
+			fs.rmdirSync(stale);
+		} catch {
+			// Another process removed it first.
+		}
+	}
+}
+
+// The placeholder that Karma serves and preprocesses in place of a bundle.
+// Other files of this process, which are removed with the placeholders, can
+// use another extension.
+export function placeholderFile(name: string, ext = ".js") {
+	return path.join(root, String(process.pid), `${name}${ext}`);
+}
+
+export function removePlaceholder(file: string) {
+	try {
+		fs.unlinkSync(file);
+	} catch {
+		// The placeholder was never written.
+	}
+	try {
+		fs.rmdirSync(path.dirname(file));
+	} catch {
+		// Another placeholder of this process still uses the directory.
+	}
+}
+
+export interface EntryPointOptions {
+	// When sharding, only this shard's test files are imported.
+	shard?: Shard | null;
+	// The placeholder's name, without extension.
+	name?: string;
+	// Import the test files lazily, and only run the ones matching the
+	// filter passed to the browser. Their paths are relative to `basePath`.
+	lazy?: boolean;
+	basePath?: string;
+}
+
+// Reads the filter from the debug page's query (`?esbuild-filter=...`), or
+// from `client.args` (`--esbuild-filter=...` or `--esbuild-filter ...`), and
+// delays Karma's start until the matching test files have been imported.
+function lazyEntry(tests: string[]) {
+	return `(function () {
+	var karma = window.__karma__;
+	var tests = [
+${tests.join(",\n")}
+	];
+	function pattern() {
+		var query = /[?&]esbuild-filter=([^&]*)/.exec(window.location.search);
+		if (query) return decodeURIComponent(query[1]);
+		var args = (karma.config && karma.config.args) || [];
+		for (var i = 0; i < args.length; i++) {
+			if (typeof args[i] !== "string") continue;
+			if (args[i] === "--esbuild-filter") return args[i + 1];
+			if (args[i].indexOf("--esbuild-filter=") === 0) {
+				return args[i].slice("--esbuild-filter=".length);
+			}
+		}
+	}
+	var source = pattern();
+	var filter = source ? new RegExp(source) : null;
+	var loading = tests.reduce(function (prev, test) {
+		if (filter && !filter.test(test[0])) return prev;
+		return prev.then(test[1]);
+	}, Promise.resolve());
+	var loaded = karma.loaded;
+	karma.loaded = function () {
+		var self = this;
+		loading.then(
+			function () {
+				loaded.call(self);
+			},
+			function (err) {
+				karma.error(String((err && err.stack) || err));
+			},
+		);
+	};
+})();`;
+}
 
 export class TestEntryPoint {
-	// Dirty signifies that new test file has been addeed, and is cleared once the entryPoint is written.
+	// Dirty signifies that new test file has been addeed, and is cleared once the entryPoint is updated.
 	private dirty = false;
 	private files = new Set<string>();
+	// When set, only these test files are imported into the bundle.
+	private focused: Set<string> | null = null;
 
-	private dir = os.tmpdir();
-	// The `file` is a dummy, meant to allow Karma to work. But, we can't write
-	// to it without causing Karma to refresh. So, we have a real file that we
-	// write to, and allow esbuild to build from.
-	file = path.join(this.dir, `${random(16)}-bundle.js`);
+	// The `file` is an empty placeholder, meant to allow Karma to work. The
+	// imports of the test files only exist in memory, and are handed to
+	// esbuild by the `plugin`.
+	declare readonly file: string;
+	private contents = "";
+
+	private declare shard: Shard | null;
+	private declare lazy: boolean;
+	private declare basePath: string;
+
+	constructor({
+		shard = null,
+		name = "bundle",
+		lazy = false,
+		basePath = process.cwd(),
+	}: EntryPointOptions = {}) {
+		this.shard = shard;
+		this.lazy = lazy;
+		this.basePath = basePath;
+		this.file = placeholderFile(name);
+	}
 
 	addFile(file: string) {
-		const normalized = path
-			.relative(this.file, file)
-			.replace(/\\/g, path.posix.sep);
+		if (this.files.has(file)) return;
+		this.files.add(file);
+		this.dirty = true;
+	}
 
-		if (this.files.has(normalized)) return;
-		this.files.add(normalized);
+	// Returns whether the file was part of the entry point.
+	removeFile(file: string) {
+		if (!this.files.delete(file)) return false;
 		this.dirty = true;
+		return true;
+	}
+
+	// All registered test files, including the ones left out by `focus`.
+	testFiles() {
+		return this.files.values();
+	}
+
+	isEmpty() {
+		return this.files.size === 0;
+	}
+
+	isFocused() {
+		return this.focused !== null;
 	}
 
-	write() {
+	focus(files: Set<string> | null) {
+		this.focused = files;
+		this.dirty = true;
+	}
+
+	update() {
 		if (!this.dirty) return;
 		this.dirty = false;
-		const files = Array.from(this.files).map(file => {
-			return `import "${file}";`;
+		const { focused } = this;
+		const sharded = this.shard ? this.shard.select(this.files) : this.files;
+		// Sorted, so the bundle doesn't depend on the order Karma preprocessed
+		// the files in.
+		const files = Array.from(sharded)
+			.sort()
+			.filter(file => !focused || focused.has(file));
+		const specifier = (file: string) =>
+			JSON.stringify(
+				path.relative(path.dirname(this.file), file).replace(/\\/g, "/"),
+			);
+
+		if (!this.lazy) {
+			this.contents = files
+				.map(file => `import ${specifier(file)};`)
+				.join("\n");
+			return;
+		}
+		const tests = files.map(file => {
+			const name = path.relative(this.basePath, file).replace(/\\/g, "/");
+			const load = `function () { return import(${specifier(file)}); }`;
+			return `\t\t[${JSON.stringify(name)}, ${load}]`;
 		});
-		fs.writeFileSync(this.file, files.join("\n"));
+		this.contents = lazyEntry(tests);
+	}
+
+	// The source of the entry point, as esbuild sees it.
+	source() {
+		return this.contents;
+	}
+
+	// Loads the entry point from memory instead of the placeholder. Its path
+	// in source maps is just its name, like `karma-esbuild-entry:bundle.js`.
+	plugin(): esbuild.Plugin {
+		const filter = new RegExp(
+			`^${this.file.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`,
+		);
+		return {
+			name: "karma-esbuild-entry",
+			setup: build => {
+				build.onResolve({ filter }, () => ({
+					path: path.basename(this.file),
+					namespace: ENTRY_NAMESPACE,
+				}));
+				build.onLoad({ filter: /.*/, namespace: ENTRY_NAMESPACE }, () => ({
+					contents: this.contents,
+					resolveDir: path.dirname(this.file),
+					loader: "js",
+				}));
+			},
+		};
 	}
 
 	touch() {
+		fs.mkdirSync(path.dirname(this.file), { recursive: true });
 		fs.writeFileSync(this.file, "");
 	}
+
+	remove() {
+		removePlaceholder(this.file);
+	}
 }
@@ -0,0 +1,51 @@
+import * as path from "path";
+import * as esbuild from "esbuild";
+import { formatMessage, loaders } from "./utils";
+import { transformOptions } from "./coverage";
+
+import type { SourceMapPayload } from "module";
+
+export interface TransformResult {
+	code: string;
+	map: SourceMapPayload;
+	warnings: esbuild.Message[];
+}
+
+// Transforms a single file without bundling it, with the shared target,
+// define, loader and JSX options, and the tsconfig.json a build would use. The file keeps its place in Karma's file list,
+// as a classic script.
+export async function transformFile(
+	source: string,
+	file: string,
+	config: esbuild.BuildOptions,
+): Promise<TransformResult> {
+	const ext = path.extname(file);
+	const result = await esbuild.transform(source, {
+		loader: config.loader?.[ext] || loaders[ext] || "js",
+		target: config.target || "es2015",
+		define: {
+			"process.env.NODE_ENV": JSON.stringify(
+				process.env.NODE_ENV || "development",
+			),
+			...config.define,
+		},
+		...transformOptions(file, config),
+		sourcemap: "external",
+		sourcefile: file,
+		// Warnings and errors are logged through Karma instead.
+		logLevel: "silent",
+	});
+	const { code, map, warnings } = result;
+	return { code, map: JSON.parse(map), warnings };
+}
+
+// Formats why a transform failed, like a failed build.
+export function transformError(err: any) {
+	const { errors = [] } = err as esbuild.TransformFailure;
+	if (errors.length === 0) return err.message as string;
+	const plural = errors.length === 1 ? "" : "s";
+	return [
+		`Transform failed with ${errors.length} error${plural}:`,
+		...errors.map(e => formatMessage(e)),
+	].join("\n");
+}
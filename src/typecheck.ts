@@ -0,0 +1,190 @@
+import * as path from "path";
+import * as fs from "fs";
+import { spawn } from "child_process";
+import { debounce } from "./utils";
+import { readCompilerOptions } from "./coverage";
+import { placeholderFile, removePlaceholder } from "./test-entry-point";
+
+import type { ChildProcess } from "child_process";
+import type { Log } from "./utils";
+
+export interface TypecheckOptions {
+	/**
+	 * The tsconfig.json (relative to basePath) whose compiler options are
+	 * used. Defaults to `tsconfig.json`.
+	 */
+	tsconfig?: string;
+	/** Fail a single run when type checking reports errors. */
+	failOnError?: boolean;
+}
+
+const diagnostic = /^(.+)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+const globalDiagnostic = /^(error|warning) (TS\d+): (.*)$/;
+const watchStatus = /^\S+( [AP]M)? - (Starting|File change|Found)/;
+
+// TypeChecker runs the TypeScript compiler next to the build, checking the
+// test files Karma loads and everything they import. The compiler runs in its
+// own process, and its diagnostics are reported through the logger.
+export class TypeChecker {
+	private declare log: Log;
+	private declare basePath: string;
+	private declare tsconfig: string;
+	private declare watch: boolean;
+	// A generated tsconfig.json that extends the user's, but only includes the
+	// test files. It's kept out of the project, next to the placeholders.
+	private declare configFile: string;
+
+	private files = new Set<string>();
+	private child: ChildProcess | null = null;
+	private errors = 0;
+	private lines: string[] = [];
+	private done: Promise<number> = Promise.resolve(0);
+
+	constructor(
+		log: Log,
+		basePath: string,
+		options: TypecheckOptions,
+		watch: boolean,
+	) {
+		this.log = log;
+		this.basePath = basePath;
+		this.tsconfig = path.resolve(basePath, options.tsconfig || "tsconfig.json");
+		this.configFile = placeholderFile("tsconfig", ".json");
+		this.watch = watch;
+	}
+
+	addFile(file: string) {
+		if (!/\.tsx?$/.test(file) || this.files.has(file)) return;
+		this.files.add(file);
+		this.schedule();
+	}
+
+	removeFile(file: string) {
+		if (!this.files.delete(file)) return;
+		this.schedule();
+	}
+
+	// Resolves with the number of errors once the current check is done.
+	result() {
+		return this.done;
+	}
+
+	stop() {
+		this.child?.kill();
+		this.child = null;
+		removePlaceholder(this.configFile);
+	}
+
+	// TypeScript looks for `@types` packages next to the tsconfig.json it's
+	// given, which is the generated one. Unless the user's sets `typeRoots`,
+	// they're looked for next to the user's instead.
+	private typeRoots() {
+		try {
+			if (readCompilerOptions(this.tsconfig).typeRoots) return {};
+		} catch {
+			// tsc reports a missing or invalid tsconfig.json.
+		}
+		const typeRoots: string[] = [];
+		for (let dir = path.dirname(this.tsconfig); ; dir = path.dirname(dir)) {
+			const types = path.join(dir, "node_modules", "@types");
+			if (fs.existsSync(types)) typeRoots.push(types);
+			if (path.dirname(dir) === dir) return { typeRoots };
+		}
+	}
+
+	// Test files are added one by one while Karma preprocesses them, so
+	// wait for them all before checking.
+	private schedule = debounce(() => {
+		const config = {
+			...(fs.existsSync(this.tsconfig) && { extends: this.tsconfig }),
+			compilerOptions: { noEmit: true, ...this.typeRoots() },
+			files: Array.from(this.files),
+			include: [],
+		};
+		fs.mkdirSync(path.dirname(this.configFile), { recursive: true });
+		fs.writeFileSync(this.configFile, JSON.stringify(config, null, 2));
+
+		// In watch mode, tsc picks up the changed tsconfig itself.
+		if (this.watch && this.child) return;
+		this.start();
+	}, 100);
+
+	private start() {
+		let tsc: string;
+		try {
+			tsc = require.resolve("typescript/bin/tsc", { paths: [this.basePath] });
+		} catch {
+			this.log.error("Type checking requires the typescript package");
+			return;
+		}
+
+		this.child?.kill();
+		this.errors = 0;
+		this.lines = [];
+		const args = [tsc, "-p", this.configFile, "--pretty", "false"];
+		if (this.watch) args.push("--watch", "--preserveWatchOutput");
+		const child = spawn(process.execPath, args, { cwd: this.basePath });
+		this.child = child;
+		this.log.info("Type checking...");
+
+		let buffered = "";
+		child.stdout!.on("data", (data: Buffer) => {
+			const lines = (buffered + data.toString()).split(/\r?\n/);
+			buffered = lines.pop()!;
+			lines.forEach(line => this.onLine(line));
+		});
+		this.done = new Promise(resolve => {
+			child.on("exit", () => {
+				if (buffered) this.onLine(buffered);
+				// A check that was restarted or stopped doesn't count.
+				resolve(child === this.child ? this.finish() : 0);
+			});
+		});
+	}
+
+	private onLine(line: string) {
+		if (!line.trim()) return;
+		if (watchStatus.test(line)) {
+			if (/ - Found /.test(line)) this.finish();
+			return;
+		}
+		if (diagnostic.test(line) || globalDiagnostic.test(line)) {
+			this.flush();
+		}
+		this.lines.push(line);
+	}
+
+	// Logs the diagnostic that has been read so far. Messages can span
+	// several lines.
+	private flush() {
+		if (this.lines.length === 0) return;
+		const [first, ...rest] = this.lines;
+		this.lines = [];
+
+		const match = diagnostic.exec(first);
+		const message = match
+			? `${match[1]}:${match[2]}:${match[3]}: ${match[4]} ${match[5]}: ${match[6]}`
+			: first;
+		const text = [message, ...rest].join("\n");
+		if (/^(\S.*: )?error /.test(message)) {
+			this.errors++;
+			this.log.error(text);
+		} else {
+			this.log.info(text);
+		}
+	}
+
+	// Reports the end of a check, and returns its number of errors.
+	private finish() {
+		this.flush();
+		const { errors } = this;
+		this.errors = 0;
+		if (errors === 0) {
+			this.log.info("Type checking found no errors");
+		} else {
+			const plural = errors === 1 ? "" : "s";
+			this.log.error(`Type checking found ${errors} error${plural}`);
+		}
+		return errors;
+	}
+}
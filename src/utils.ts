@@ -1,6 +1,9 @@
 import * as crypto from "crypto";
+import * as path from "path";
 
-export type Log = Pick<Console, "info" | "error">;
+import type esbuild from "esbuild";
+
+export type Log = Pick<Console, "info" | "warn" | "error">;
 export class Deferred<T> {
 	declare promise: Promise<T>;
 	declare resolve: (value: T | PromiseLike<T>) => void;
@@ -14,6 +17,12 @@ export class Deferred<T> {
 	}
 }
 
+// Paths from a plugin's namespace (like `env-ns:env`) aren't files. The
+// prefix is at least two characters, to tell it apart from a drive letter.
+export function hasNamespace(file: string) {
+	return /^[\w-]{2,}:/.test(file);
+}
+
 export function random(length: number) {
 	return crypto.randomBytes(length).toString("hex");
 }
@@ -65,3 +74,69 @@ export function formatTime(ms: number): string {
 	}
 	return str;
 }
+
+// The URL that the middleware serves a file at.
+export function absoluteUrl(file: string) {
+	return `/absolute${file.replace(/\\/g, "/")}`;
+}
+
+// The loaders of the source files that plugins transform themselves.
+export const loaders: Record<string, esbuild.Loader> = {
+	".js": "js",
+	".mjs": "js",
+	".cjs": "js",
+	".jsx": "jsx",
+	".ts": "ts",
+	".tsx": "tsx",
+};
+
+const contentTypes: Record<string, string> = {
+	".js": "application/javascript",
+	".mjs": "application/javascript",
+	".css": "text/css",
+	".map": "application/json",
+	".json": "application/json",
+	".wasm": "application/wasm",
+	".svg": "image/svg+xml",
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".avif": "image/avif",
+	".ico": "image/x-icon",
+	".woff": "font/woff",
+	".woff2": "font/woff2",
+	".ttf": "font/ttf",
+	".otf": "font/otf",
+	".eot": "application/vnd.ms-fontobject",
+	".html": "text/html",
+	".txt": "text/plain",
+};
+
+export function contentType(file: string) {
+	const type = contentTypes[path.extname(file).toLowerCase()];
+	return type || "application/octet-stream";
+}
+
+export function formatBytes(bytes: number): string {
+	if (bytes < 1000) return `${bytes} B`;
+	if (bytes < 1000 * 1000) return `${(bytes / 1000).toFixed(1)} kB`;
+	return `${(bytes / (1000 * 1000)).toFixed(1)} MB`;
+}
+
+export function formatMessage(message: esbuild.Message, kind = "error") {
+	const { location, text } = message;
+	if (!location) return `${kind}: ${text}`;
+
+	const { file, line, column, length, lineText } = location;
+	const gutter = " ".repeat(String(line).length);
+	// Keep tabs in the padding so the marker lines up with the code above.
+	const padding = lineText.slice(0, column).replace(/[^\t]/g, " ");
+	const marker = length > 0 ? "~".repeat(length) : "^";
+	return [
+		`${file}:${line}:${column}: ${kind}: ${text}`,
+		`    ${line} │ ${lineText}`,
+		`    ${gutter} ╵ ${padding}${marker}`,
+	].join("\n");
+}
@@ -0,0 +1,199 @@
+import type { Log } from "./utils";
+
+type Check = [test: (value: unknown) => boolean, expected: string];
+
+const any: Check = [() => true, ""];
+const boolean: Check = [v => typeof v === "boolean", "a boolean"];
+const number: Check = [v => typeof v === "number", "a number"];
+const string: Check = [v => typeof v === "string", "a string"];
+const func: Check = [v => typeof v === "function", "a function"];
+const array: Check = [v => Array.isArray(v), "an array"];
+const object: Check = [
+	v => typeof v === "object" && v !== null && !Array.isArray(v),
+	"an object",
+];
+
+function either(...checks: Check[]): Check {
+	return [
+		v => checks.some(([test]) => test(v)),
+		checks.map(([, expected]) => expected).join(" or "),
+	];
+}
+
+function oneOf(...values: unknown[]): Check {
+	return [
+		v => values.includes(v),
+		`one of ${values.map(v => JSON.stringify(v)).join(", ")}`,
+	];
+}
+
+// The options of this plugin.
+const pluginOptions: Record<string, Check> = {
+	bundleDelay: number,
+	singleBundle: boolean,
+	coverage: either(boolean, object),
+	affectedOnly: boolean,
+	watcher: object,
+	report: string,
+	overrides: array,
+	cache: string,
+	onBuildStart: func,
+	onBuildEnd: func,
+	typecheck: either(boolean, object),
+	shard: object,
+	lazy: boolean,
+	failOnWarning: either(boolean, array),
+	mocks: object,
+	outputDir: string,
+	vendor: either(boolean, object),
+	workers: boolean,
+};
+
+// The build options of the esbuild releases this plugin supports. Options
+// whose type changed between releases aren't checked.
+const esbuildOptions: Record<string, Check> = {
+	absWorkingDir: string,
+	alias: object,
+	allowOverwrite: boolean,
+	assetNames: string,
+	banner: any,
+	bundle: boolean,
+	charset: string,
+	chunkNames: string,
+	color: boolean,
+	conditions: array,
+	define: object,
+	drop: array,
+	dropLabels: array,
+	entryNames: string,
+	entryPoints: either(array, object),
+	external: array,
+	footer: any,
+	format: oneOf("iife", "cjs", "esm"),
+	globalName: string,
+	ignoreAnnotations: boolean,
+	incremental: boolean,
+	inject: array,
+	jsx: oneOf("transform", "preserve", "automatic"),
+	jsxDev: boolean,
+	jsxFactory: string,
+	jsxFragment: string,
+	jsxImportSource: string,
+	jsxSideEffects: boolean,
+	keepNames: boolean,
+	legalComments: string,
+	lineLimit: number,
+	loader: object,
+	logLevel: oneOf("verbose", "debug", "info", "warning", "error", "silent"),
+	logLimit: number,
+	logOverride: object,
+	mainFields: array,
+	mangleCache: object,
+	mangleProps: any,
+	mangleQuoted: boolean,
+	metafile: any,
+	minify: boolean,
+	minifyIdentifiers: boolean,
+	minifySyntax: boolean,
+	minifyWhitespace: boolean,
+	nodePaths: array,
+	outbase: string,
+	outdir: string,
+	outExtension: object,
+	outfile: string,
+	packages: string,
+	platform: oneOf("browser", "node", "neutral"),
+	plugins: array,
+	preserveSymlinks: boolean,
+	publicPath: string,
+	pure: array,
+	reserveProps: any,
+	resolveExtensions: array,
+	sourcemap: oneOf(true, false, "inline", "external", "both", "linked"),
+	sourceRoot: string,
+	sourcesContent: boolean,
+	splitting: boolean,
+	stdin: object,
+	supported: object,
+	target: either(string, array),
+	treeShaking: any,
+	tsconfig: string,
+	tsconfigRaw: either(string, object),
+	watch: any,
+	write: boolean,
+};
+
+// The options every build overrides, and why.
+const forcedOptions: Record<string, string> = {
+	entryPoints: "the test files are the entry points",
+	stdin: "the test files are the entry points",
+	bundle: "the test files are always bundled",
+	write: "the bundles are served from memory",
+	incremental: "rebuilds in watch mode are always incremental",
+	watch: "Karma's watcher triggers the rebuilds",
+	outdir: "the bundles are served next to the test files",
+	outfile: "the bundles are served next to the test files",
+};
+
+function checkOptions(
+	options: Record<string, unknown>,
+	name: string,
+	checks: Record<string, Check>,
+	log: Log,
+) {
+	for (const [key, value] of Object.entries(options)) {
+		const check = checks[key];
+		if (!check) {
+			log.warn(`Unknown option "${name}.${key}" is ignored`);
+			continue;
+		}
+		if (value === undefined) continue;
+
+		const [test, expected] = check;
+		if (!test(value)) {
+			log.error(`Option "${name}.${key}" must be ${expected}`);
+		} else if (key in forcedOptions) {
+			const reason = forcedOptions[key];
+			log.warn(`Option "${name}.${key}" is ignored, because ${reason}`);
+		}
+	}
+
+	if (options.sourcemap === false) {
+		log.error(
+			`Option "${name}.sourcemap" can't be false, because Karma needs source maps to map stack traces`,
+		);
+	}
+	if (options.platform === "node") {
+		log.error(
+			`Option "${name}.platform" can't be "node", because the tests run in the browser`,
+		);
+	}
+}
+
+// Leaves out the options that esbuild doesn't know, which would fail every
+// build, and the ones every build overrides, which can conflict with the
+// overriding ones (like `outfile` with `outdir`). `validateConfig` warns
+// about both.
+export function knownOptions<T extends object>(options: T): T {
+	const known: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(options)) {
+		if (key in esbuildOptions && !(key in forcedOptions)) known[key] = value;
+	}
+	return known as T;
+}
+
+// Checks the `esbuild` block of the Karma config, including the options of
+// every override. Mistakes are logged instead of thrown, so that Karma still
+// starts.
+export function validateConfig(config: object, log: Log) {
+	const options = config as Record<string, unknown>;
+	const checks = { ...pluginOptions, ...esbuildOptions };
+	checkOptions(options, "esbuild", checks, log);
+
+	const { overrides } = options;
+	if (!Array.isArray(overrides)) return;
+	overrides.forEach((override, i) => {
+		const name = `esbuild.overrides[${i}].options`;
+		checkOptions(override?.options || {}, name, esbuildOptions, log);
+	});
+}
@@ -0,0 +1,235 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as crypto from "crypto";
+import { Bundle } from "./bundle";
+import {
+	ENTRY_NAMESPACE,
+	placeholderFile,
+	removePlaceholder,
+} from "./test-entry-point";
+import { contentType, formatTime } from "./utils";
+
+import type esbuild from "esbuild";
+import type { Log } from "./utils";
+import type { Metafile } from "./metafile";
+import type { BundleOptions, BundleResult } from "./bundle";
+
+export interface VendorOptions {
+	/**
+	 * Files (relative to basePath) whose changes rebuild the vendor bundle,
+	 * next to changes of the imported packages.
+	 */
+	lockfiles?: string[];
+}
+
+// The packages imported by the test bundles are loaded from the vendor
+// bundle, which keeps them in this global.
+const GLOBAL = "__karma_esbuild_vendor__";
+
+export const VENDOR_NAMESPACE = "karma-esbuild-vendor";
+
+const defaultLockfiles = ["package-lock.json", "yarn.lock", "pnpm-lock.yaml"];
+
+function packageName(specifier: string) {
+	const parts = specifier.split("/");
+	return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+// Whether the package is installed in a node_modules directory above dir,
+// where esbuild would look for it.
+function isInstalled(name: string, dir: string) {
+	for (let current = dir; ; current = path.dirname(current)) {
+		if (fs.existsSync(path.join(current, "node_modules", name))) return true;
+		if (path.dirname(current) === current) return false;
+	}
+}
+
+// Resolves the packages that the test files import to the vendor bundle,
+// instead of bundling them again. Packages marked as external, imports of
+// other packages and assets like stylesheets are left to esbuild. So are
+// specifiers that don't point into node_modules, like the keys of `alias`,
+// tsconfig `paths` and `#imports`.
+export function createVendorPlugin(
+	config: esbuild.BuildOptions,
+): esbuild.Plugin {
+	const { external = [] } = config;
+	// `alias` is missing from the types of older esbuild releases.
+	const { alias = {} } = config as { alias?: Record<string, string> };
+	const isExternal = (specifier: string) =>
+		external.includes(specifier) || external.includes(packageName(specifier));
+	const isAliased = (specifier: string) =>
+		Object.keys(alias).some(
+			key => specifier === key || specifier.startsWith(`${key}/`),
+		);
+
+	return {
+		name: "karma-esbuild-vendor",
+		setup(build) {
+			build.onResolve({ filter: /^[^./]/ }, args => {
+				if (args.namespace !== "file") return;
+				if (/[/\\]node_modules[/\\]/.test(args.importer)) return;
+				if (path.isAbsolute(args.path) || isExternal(args.path)) return;
+				if (args.path.startsWith("#") || isAliased(args.path)) return;
+				if (!isInstalled(packageName(args.path), args.resolveDir)) return;
+				const type = contentType(args.path);
+				if (type !== "application/octet-stream" && !/javascript/.test(type)) {
+					return;
+				}
+				return { path: args.path, namespace: VENDOR_NAMESPACE };
+			});
+			build.onLoad({ filter: /.*/, namespace: VENDOR_NAMESPACE }, args => {
+				const specifier = JSON.stringify(args.path);
+				return {
+					contents: [
+						`var modules = window.${GLOBAL} || {};`,
+						`if (!(${specifier} in modules)) throw new Error(${JSON.stringify(
+							`${args.path} is missing from the vendor bundle`,
+						)});`,
+						`module.exports = modules[${specifier}];`,
+					].join("\n"),
+					loader: "js",
+				};
+			});
+		},
+	};
+}
+
+// The packages a test bundle imports, as found in its metafile.
+function vendorImports(metafile: Metafile) {
+	const prefix = `${VENDOR_NAMESPACE}:`;
+	return Object.keys(metafile.inputs)
+		.filter(input => input.startsWith(prefix))
+		.map(input => input.slice(prefix.length));
+}
+
+// Vendor builds the packages imported by the test bundles into a bundle of
+// their own, served before them. It's only built again when the set of
+// imported packages or a lockfile changed, so rebuilds in watch mode skip
+// the packages.
+export class Vendor {
+	declare readonly file: string;
+	declare readonly bundle: Bundle;
+	declare readonly lockfiles: string[];
+	private declare log: Log;
+	private declare basePath: string;
+	private contents = "";
+	private packages: string[] = [];
+	// Identifies the packages and lockfiles of the latest build.
+	private key: string | null = null;
+	private result: Promise<BundleResult> | null = null;
+
+	constructor(
+		log: Log,
+		basePath: string,
+		config: esbuild.BuildOptions,
+		{ lockfiles = defaultLockfiles }: VendorOptions,
+		options: BundleOptions,
+	) {
+		this.log = log;
+		this.basePath = basePath;
+		this.file = placeholderFile("vendor");
+		this.lockfiles = lockfiles.map(file => path.resolve(basePath, file));
+		this.bundle = new Bundle(
+			this.file,
+			log,
+			{
+				...config,
+				// The packages are evaluated by a classic script, before the test
+				// bundles.
+				format: "iife",
+				splitting: false,
+			},
+			{ ...options, entryPoint: this },
+		);
+	}
+
+	// Builds the packages imported by the test bundles, unless they're the
+	// same as in the previous build. The imports of a failed build (without
+	// a metafile) are kept.
+	update(metafiles: Array<Metafile | undefined>) {
+		const packages = new Set<string>();
+		for (const metafile of metafiles) {
+			const imports = metafile ? vendorImports(metafile) : this.packages;
+			imports.forEach(p => packages.add(p));
+		}
+		this.packages = Array.from(packages).sort();
+
+		const key = this.hash();
+		if (this.result && key === this.key) return this.result;
+		this.key = key;
+		this.contents = [
+			`var modules = (window.${GLOBAL} = {});`,
+			...this.packages.map(p => {
+				const specifier = JSON.stringify(p);
+				return `modules[${specifier}] = require(${specifier});`;
+			}),
+		].join("\n");
+
+		let startTime = 0;
+		this.bundle.dirty();
+		this.result = this.bundle.write(
+			() => {
+				startTime = Date.now();
+				const plural = this.packages.length === 1 ? "" : "s";
+				this.log.info(
+					`Compiling ${this.packages.length} package${plural} to ${this.file}...`,
+				);
+			},
+			() => {
+				const duration = formatTime(Date.now() - startTime);
+				this.log.info(`Compiling the packages done (${duration})`);
+			},
+		);
+		return this.result;
+	}
+
+	// The source of the vendor bundle's entry point.
+	source() {
+		return this.contents;
+	}
+
+	// Loads the entry point from memory, like the test entry points. The
+	// packages are resolved from basePath.
+	plugin(): esbuild.Plugin {
+		const filter = new RegExp(
+			`^${this.file.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`,
+		);
+		return {
+			name: "karma-esbuild-vendor-entry",
+			setup: build => {
+				build.onResolve({ filter }, () => ({
+					path: path.basename(this.file),
+					namespace: ENTRY_NAMESPACE,
+				}));
+				build.onLoad({ filter: /.*/, namespace: ENTRY_NAMESPACE }, () => ({
+					contents: this.contents,
+					resolveDir: this.basePath,
+					loader: "js",
+				}));
+			},
+		};
+	}
+
+	touch() {
+		fs.mkdirSync(path.dirname(this.file), { recursive: true });
+		fs.writeFileSync(this.file, "");
+	}
+
+	stop() {
+		removePlaceholder(this.file);
+		return this.bundle.stop();
+	}
+
+	private hash() {
+		const hash = crypto.createHash("sha1");
+		hash.update(JSON.stringify(this.packages));
+		for (const file of this.lockfiles) {
+			try {
+				hash.update(fs.readFileSync(file));
+			} catch {
+				// Not every package manager's lockfile exists.
+			}
+		}
+		return hash.digest("hex");
+	}
+}
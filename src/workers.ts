@@ -0,0 +1,168 @@
+import * as path from "path";
+import { promises as fs } from "fs";
+import { BundlerMap } from "./bundler-map";
+import { formatTime, hasNamespace, loaders } from "./utils";
+
+import type esbuild from "esbuild";
+import type { Log } from "./utils";
+import type { Metafile } from "./metafile";
+import type { BundleOptions, BundleResult } from "./bundle";
+
+// Matches `new Worker(new URL("./worker.ts", import.meta.url)`, and the same
+// for shared workers.
+const workerReference =
+	/\bnew\s+(Worker|SharedWorker)\s*\(\s*new\s+URL\s*\(\s*(["'`])([^"'`]+)\2\s*,\s*import\.meta\.url\s*\)/g;
+
+// The files that the plugin below looks for worker references in.
+const sourceFile = /\.[cm]?[jt]sx?$/;
+
+// Workers are served by the middleware below this path, followed by the
+// absolute path of their source file.
+export const WORKER_PREFIX = "/esbuild/worker";
+
+// Windows paths start with a drive letter instead of a slash, so the slash
+// after the prefix is always added here, and removed by `workerFile`.
+export function workerUrl(file: string) {
+	return `${WORKER_PREFIX}/${file.replace(/\\/g, "/").replace(/^\//, "")}`;
+}
+
+// The file that a URL below the prefix points to. Resolving against the
+// root brings back the leading slash of posix paths.
+export function workerFile(url: string) {
+	const file = url.slice(WORKER_PREFIX.length + 1).replace(/[?#].*$/, "");
+	return path.resolve("/", file);
+}
+
+// Points the worker references in source files to the URL their bundle is
+// served at. `import.meta.url` doesn't exist in the bundle, so the URL is
+// resolved against the page (or the worker) that starts the worker instead.
+// Files that start workers are not instrumented for code coverage, as only
+// one plugin can load a file.
+export function createWorkerPlugin(
+	config: esbuild.BuildOptions,
+	onWorker: (file: string) => void,
+): esbuild.Plugin {
+	return {
+		name: "karma-esbuild-workers",
+		setup(build) {
+			build.onLoad({ filter: sourceFile }, async args => {
+				if (/[/\\]node_modules[/\\]/.test(args.path)) return;
+				const source = await fs.readFile(args.path, "utf-8");
+				if (!/\bnew\s+(Shared)?Worker\b/.test(source)) return;
+
+				const contents = source.replace(
+					workerReference,
+					(_, constructor: string, _quote: string, specifier: string) => {
+						const file = path.resolve(path.dirname(args.path), specifier);
+						onWorker(file);
+						const url = JSON.stringify(workerUrl(file));
+						return `new ${constructor}(new URL(${url}, location.href)`;
+					},
+				);
+				const ext = path.extname(args.path);
+				return { contents, loader: config.loader?.[ext] || loaders[ext] };
+			});
+		},
+	};
+}
+
+// Workers builds the scripts of the Web Workers started by the tests. Every
+// worker is its own bundle, built as soon as a reference to it is found, and
+// again after every change in watch mode.
+export class Workers {
+	private declare log: Log;
+	private declare bundlerMap: BundlerMap;
+	// The workers that builds referenced. Only these are served, so that the
+	// middleware doesn't bundle any other file it's asked for.
+	private discovered = new Set<string>();
+	// Looking for the workers of cached builds, which `get` waits for.
+	private scanning: Promise<unknown> = Promise.resolve();
+	private onBuild: ((file: string, result: BundleResult) => void) | null = null;
+
+	constructor(log: Log, config: esbuild.BuildOptions, options: BundleOptions) {
+		this.log = log;
+		this.bundlerMap = new BundlerMap(
+			log,
+			{
+				...config,
+				// Classic workers can't load ES modules, or the chunks that code
+				// splitting creates.
+				format: "iife",
+				splitting: false,
+			},
+			options,
+		);
+	}
+
+	// Calls `onBuild` after every build of a worker.
+	listen(onBuild: (file: string, result: BundleResult) => void) {
+		this.onBuild = onBuild;
+	}
+
+	add(file: string) {
+		this.discovered.add(file);
+		if (this.bundlerMap.has(file)) return;
+		this.build(file);
+	}
+
+	// A build that was read from the cache didn't run the plugin, so its
+	// inputs are searched for the workers they start instead.
+	discover(metafile: Metafile) {
+		const files = Object.keys(metafile.inputs).filter(
+			input =>
+				!hasNamespace(input) &&
+				sourceFile.test(input) &&
+				!/[/\\]node_modules[/\\]/.test(input),
+		);
+		const scan = Promise.all(
+			files.map(async file => {
+				const source = await fs.readFile(file, "utf-8").catch(() => "");
+				const reference = new RegExp(workerReference.source, "g");
+				let match;
+				while ((match = reference.exec(source))) {
+					this.add(path.resolve(path.dirname(file), match[3]));
+				}
+			}),
+		);
+		this.scanning = Promise.all([this.scanning, scan]);
+	}
+
+	// Returns the worker's bundle, or null for a file that no build
+	// referenced as a worker.
+	async get(file: string) {
+		await this.scanning;
+		if (!this.discovered.has(file)) return null;
+		return this.bundlerMap.get(file);
+	}
+
+	values() {
+		return this.bundlerMap.values();
+	}
+
+	rebuild() {
+		for (const bundle of this.bundlerMap.values()) {
+			this.build(bundle.file);
+		}
+	}
+
+	stop() {
+		return this.bundlerMap.stop();
+	}
+
+	private async build(file: string) {
+		const bundle = this.bundlerMap.get(file);
+		bundle.dirty();
+		let startTime = 0;
+		const result = await bundle.write(
+			() => {
+				startTime = Date.now();
+				this.log.info(`Compiling worker ${file}...`);
+			},
+			() => {
+				const duration = formatTime(Date.now() - startTime);
+				this.log.info(`Compiling worker ${file} done (${duration})`);
+			},
+		);
+		this.onBuild?.(file, result);
+	}
+}
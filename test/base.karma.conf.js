@@ -1,3 +1,15 @@
+// The fixtures run against the esbuild in devDependencies. Setting
+// ESBUILD_PACKAGE runs them against another release, installed under an alias.
+const { ESBUILD_PACKAGE } = process.env;
+if (ESBUILD_PACKAGE) {
+	const Module = require("module");
+	const resolveFilename = Module._resolveFilename;
+	Module._resolveFilename = function (request, ...args) {
+		if (request === "esbuild") request = ESBUILD_PACKAGE;
+		return resolveFilename.call(this, request, ...args);
+	};
+}
+
 module.exports = {
 	baseConfig: {
 		plugins: [
@@ -0,0 +1,39 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { strict as assert } from "assert";
+
+export const description = "Reuse builds from the on-disk cache";
+export async function run(config: any) {
+	await fs
+		.rmdir(path.join(os.tmpdir(), "karma-esbuild-cache"), { recursive: true })
+		.catch(() => {});
+
+	const first = await runKarma(config, "build-cache");
+	await assertEventuallyProgresses(first.output.stdout, () => {
+		return first.output.stdout.some(line => /1 test completed/.test(line));
+	});
+	assert.ok(!first.output.stdout.some(line => /Reusing/.test(line)));
+
+	const second = await runKarma(config, "build-cache");
+	await assertEventuallyProgresses(second.output.stdout, () => {
+		return second.output.stdout.some(line => /1 test completed/.test(line));
+	});
+	assert.ok(
+		second.output.stdout.some(line => /Reusing the cached build/.test(line)),
+	);
+
+	// Changing the mocks leaves every input unchanged, but not the options of
+	// the mock plugin.
+	process.env.KARMA_ESBUILD_CACHE_FOO = "43";
+	try {
+		const third = await runKarma(config, "build-cache");
+		await assertEventuallyProgresses(third.output.stdout, () => {
+			return third.output.stdout.some(line => /1 test completed/.test(line));
+		});
+		assert.ok(!third.output.stdout.some(line => /Reusing/.test(line)));
+	} finally {
+		delete process.env.KARMA_ESBUILD_CACHE_FOO;
+	}
+}
@@ -0,0 +1,23 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Emit build lifecycle events and call hooks";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "build-events");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	const expected = [
+		/event start \.js/,
+		/hook start/,
+		/The onBuildStart hook failed: Error: Broken hook/,
+		/event complete number 0 files\/dep1\.js,files\/main-a\.js/,
+		/hook end 0 0/,
+	];
+	for (const pattern of expected) {
+		await assertEventuallyProgresses(output.stdout, () => {
+			return output.stdout.some(line => pattern.test(line));
+		});
+	}
+}
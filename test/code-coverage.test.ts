@@ -0,0 +1,10 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Instrument source files for code coverage";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "code-coverage");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /3 tests completed/.test(line));
+	});
+}
@@ -0,0 +1,28 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import path from "path";
+import { strict as assert } from "assert";
+import { parseStackTrace } from "errorstacks";
+
+export const description = "Inject CSS imported by the tests into the page";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "css-inject");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	// The injected styles must not shift the bundle's source map.
+	const errLine = output.stdout.find(line => /Error: fail/.test(line))!;
+	const err = errLine
+		.slice(errLine.indexOf("Error: fail"))
+		.split("\n")
+		.filter(Boolean)
+		.slice(1)
+		.join("\n");
+
+	const [frame] = parseStackTrace(err);
+	assert.equal(
+		`${path.relative(__dirname, frame.fileName)}:${frame.line}`,
+		`${path.join("fixtures", "css-inject", "files", "main-a.js")}:17`,
+	);
+}
@@ -0,0 +1,13 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Log the errors of writing the bundles";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "debug-output-error");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /Failed to write the bundle/.test(line));
+	});
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+}
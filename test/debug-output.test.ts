@@ -0,0 +1,32 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { strict as assert } from "assert";
+
+export const description = "Write the bundles to outputDir";
+export async function run(config: any) {
+	const dir = path.join(os.tmpdir(), "karma-esbuild-output");
+	await fs.rmdir(dir, { recursive: true }).catch(() => {});
+
+	const { output } = await runKarma(config, "debug-output");
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+	assert.ok(
+		output.stdout.some(line => line.includes(`Writing the bundles to ${dir}`)),
+	);
+
+	const code = await fs.readFile(path.join(dir, "bundle.js"), "utf-8");
+	assert.match(code, /\/\/# sourceMappingURL=bundle\.js\.map$/);
+	const map = JSON.parse(
+		await fs.readFile(path.join(dir, "bundle.js.map"), "utf-8"),
+	);
+	assert.ok(map.sources.some((s: string) => s.endsWith("main-a.js")));
+	const entry = await fs.readFile(path.join(dir, "bundle.entry.js"), "utf-8");
+	assert.match(entry, /import ".*\/debug-output\/files\/main-a\.js";/);
+	const metafile = JSON.parse(
+		await fs.readFile(path.join(dir, "bundle.meta.json"), "utf-8"),
+	);
+	assert.ok(Object.keys(metafile.inputs).length > 0);
+}
@@ -0,0 +1,13 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Build the test entry point from memory";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "entry-point");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /2 tests completed/.test(line));
+	});
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /placeholder size 0/.test(line));
+	});
+}
@@ -0,0 +1,10 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Serve chunks of an ESM bundle with code splitting";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "esm-splitting");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /2 tests completed/.test(line));
+	});
+}
@@ -0,0 +1,10 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Serve assets emitted by the file loader";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "file-loader");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+}
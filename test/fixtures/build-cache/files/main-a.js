@@ -0,0 +1,10 @@
+import { foo } from "./dep1";
+
+describe("build-cache", () => {
+	it("should work", () => {
+		const [expected] = window.__karma__.config.args;
+		if (foo() !== expected) {
+			throw new Error(`Expected ${expected}, got ${foo()}`);
+		}
+	});
+});
@@ -0,0 +1,21 @@
+const os = require("os");
+const path = require("path");
+const { baseConfig } = require("../../base.karma.conf");
+
+// Which mock replaces dep1.js, so that a run can change the mocks only.
+const foo = Number(process.env.KARMA_ESBUILD_CACHE_FOO || 42);
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		client: {
+			args: [foo],
+		},
+		esbuild: {
+			cache: path.join(os.tmpdir(), "karma-esbuild-cache"),
+			mocks: {
+				"files/dep1.js": `mocks/foo-${foo}.js`,
+			},
+		},
+	});
+};
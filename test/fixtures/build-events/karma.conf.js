@@ -0,0 +1,42 @@
+const path = require("path");
+const { baseConfig } = require("../../base.karma.conf");
+
+// Prints the events of every build, the way a reporter would consume them.
+function createListener(emitter) {
+	emitter.on("esbuild_build_start", ({ file }) => {
+		console.log(`event start ${path.extname(file)}`);
+	});
+	emitter.on("esbuild_build_complete", ({ duration, errors, inputs }) => {
+		// The entry point is built from memory, so only the test's own inputs are
+		// printed.
+		const names = inputs
+			.filter(i => i.startsWith(__dirname))
+			.map(i => path.relative(__dirname, i))
+			.sort();
+		console.log(
+			`event complete ${typeof duration} ${errors.length} ${names.join(",")}`,
+		);
+	});
+}
+createListener.$inject = ["emitter"];
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		plugins: [
+			...baseConfig.plugins,
+			{ "framework:listener": ["factory", createListener] },
+		],
+		frameworks: [...baseConfig.frameworks, "listener"],
+		esbuild: {
+			onBuildStart() {
+				console.log("hook start");
+				// The build still finishes when a hook throws.
+				throw new Error("Broken hook");
+			},
+			onBuildEnd({ warnings, errors }) {
+				console.log(`hook end ${warnings.length} ${errors.length}`);
+			},
+		},
+	});
+};
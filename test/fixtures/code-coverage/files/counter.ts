@@ -0,0 +1,8 @@
+function track(target: any, key: string) {
+	target.tracked = key;
+}
+
+export class Counter {
+	@track
+	count = 0;
+}
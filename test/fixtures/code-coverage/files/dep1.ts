@@ -0,0 +1,6 @@
+export function foo(value: number): number {
+	if (value > 0) {
+		return 42;
+	}
+	return 0;
+}
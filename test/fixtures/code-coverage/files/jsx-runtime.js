@@ -0,0 +1,3 @@
+export function jsx(type, props) {
+	return { type, props };
+}
@@ -0,0 +1,3 @@
+export function Label(props) {
+	return <label>{props.text}</label>;
+}
@@ -0,0 +1,59 @@
+import { foo } from "./dep1";
+import { Button } from "./button";
+import { Label } from "./label";
+import { Counter } from "./counter";
+
+// The classic JSX runtime, for esbuild releases without the automatic one.
+window.h = (type, props, ...children) => ({
+	type,
+	props: { ...props, children: children[0] },
+});
+
+function instrumented(pattern) {
+	const files = Object.keys(window.__coverage__ || {});
+	const file = files.find(file => pattern.test(file));
+	if (!file) {
+		throw new Error(`expected ${pattern} to be instrumented: ${files}`);
+	}
+	return window.__coverage__[file];
+}
+
+describe("coverage", () => {
+	it("should instrument source files", () => {
+		if (foo(1) !== 42) {
+			throw new Error("fail");
+		}
+
+		const { s, inputSourceMap } = instrumented(/dep1\.ts$/);
+		const files = Object.keys(window.__coverage__);
+		if (files.some(file => /main-a\.js$/.test(file))) {
+			throw new Error("expected main-a.js to be excluded");
+		}
+		if (!Object.values(s).some(count => count > 0)) {
+			throw new Error("expected statements to be counted");
+		}
+		if (!inputSourceMap) {
+			throw new Error("expected a source map back to the TypeScript file");
+		}
+	});
+
+	it("should transform JSX like the build", () => {
+		const button = Button({ label: "OK" });
+		const label = Label({ text: "Name" });
+		if (button.type !== "button" || button.props.children !== "OK") {
+			throw new Error(`Unexpected element: ${JSON.stringify(button)}`);
+		}
+		if (label.type !== "label" || label.props.children !== "Name") {
+			throw new Error(`Unexpected element: ${JSON.stringify(label)}`);
+		}
+		instrumented(/button\.tsx$/);
+		instrumented(/label\.js$/);
+	});
+
+	it("should use the compiler options of tsconfig.json", () => {
+		if (Counter.prototype.tracked !== "count") {
+			throw new Error("expected the legacy decorator to be applied");
+		}
+		instrumented(/counter\.ts$/);
+	});
+});
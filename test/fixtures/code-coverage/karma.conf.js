@@ -0,0 +1,25 @@
+const { baseConfig } = require("../../base.karma.conf");
+const esbuild = require("esbuild");
+
+// esbuild 0.14.51 added the automatic JSX runtime. Older releases are
+// checked with the classic one, which calls the global `h`.
+const [, minor, patch] = esbuild.version.split(".").map(Number);
+const automatic = minor > 14 || (minor === 14 && patch >= 51);
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			coverage: {
+				exclude: ["files/main-*.js"],
+			},
+			loader: { ".js": "jsx" },
+			...(automatic
+				? { jsx: "automatic", jsxImportSource: "jsx-lib" }
+				: { jsxFactory: "h" }),
+			mocks: {
+				"jsx-lib/jsx-runtime": "files/jsx-runtime.js",
+			},
+		},
+	});
+};
@@ -0,0 +1,19 @@
+import "./button.css";
+
+describe("css", () => {
+	it("should inject imported styles", () => {
+		const button = document.createElement("button");
+		button.className = "button";
+		document.body.appendChild(button);
+
+		const { color } = getComputedStyle(button);
+		if (color !== "red" && color !== "rgb(255, 0, 0)") {
+			throw new Error(`expected a red button, got ${color}`);
+		}
+	});
+
+	// Fails on purpose, so the reported stack shows the mapped location.
+	it("should keep the source map in sync", () => {
+		throw new Error("fail");
+	});
+});
@@ -0,0 +1,7 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+	});
+};
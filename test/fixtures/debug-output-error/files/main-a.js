@@ -0,0 +1,3 @@
+describe("debug-output-error", () => {
+	it("should run the tests", () => {});
+});
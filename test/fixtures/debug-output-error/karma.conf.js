@@ -0,0 +1,12 @@
+const path = require("path");
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			// A directory can't be created inside of a file.
+			outputDir: path.join(__filename, "output"),
+		},
+	});
+};
@@ -0,0 +1,13 @@
+const os = require("os");
+const path = require("path");
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			outputDir: path.join(os.tmpdir(), "karma-esbuild-output"),
+			metafile: true,
+		},
+	});
+};
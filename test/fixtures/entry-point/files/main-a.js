@@ -0,0 +1,8 @@
+describe("entry-point", () => {
+	it("should be served as bundle.js", () => {
+		const script = document.querySelector('script[src*="/bundle.js"]');
+		if (!script) {
+			throw new Error("Unable to find the bundle");
+		}
+	});
+});
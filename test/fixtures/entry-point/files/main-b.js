@@ -0,0 +1,3 @@
+describe("entry-point", () => {
+	it("should import every test file", () => {});
+});
@@ -0,0 +1,21 @@
+const fs = require("fs");
+const { baseConfig } = require("../../base.karma.conf");
+
+// Prints the size of the placeholder Karma serves, after every build.
+function createListener(emitter) {
+	emitter.on("esbuild_build_complete", ({ file }) => {
+		console.log(`placeholder size ${fs.statSync(file).size}`);
+	});
+}
+createListener.$inject = ["emitter"];
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		plugins: [
+			...baseConfig.plugins,
+			{ "framework:listener": ["factory", createListener] },
+		],
+		frameworks: [...baseConfig.frameworks, "listener"],
+	});
+};
@@ -0,0 +1,48 @@
+// jsdom can't execute module scripts, so this classic script checks that the
+// bundle is injected as a module and that its chunks are served.
+function get(url) {
+	return new Promise(function (resolve, reject) {
+		var xhr = new XMLHttpRequest();
+		xhr.open("GET", url, true);
+		xhr.onload = function () {
+			if (xhr.status >= 400) {
+				reject(new Error(url + " responded with " + xhr.status));
+			} else {
+				resolve(xhr.responseText);
+			}
+		};
+		xhr.onerror = function () {
+			reject(new Error("Network failure"));
+		};
+		xhr.send();
+	});
+}
+
+describe("esm-splitting", function () {
+	var script = document.querySelector('script[src*="/bundle.js"]');
+	var base = script.src.replace(/[?#].+/, "");
+
+	it("should inject the bundle as a module", function () {
+		if (script.type !== "module") {
+			throw new Error("expected a module script, got " + script.type);
+		}
+	});
+
+	it("should serve chunks and their sourcemaps", function () {
+		return get(base).then(function (code) {
+			var match = /import\(["']([^"']+\.js)["']\)/.exec(code);
+			if (!match) throw new Error("expected the bundle to import a chunk");
+
+			var chunk = new URL(match[1], base).href;
+			return Promise.all([get(chunk), get(chunk + ".map")]).then(function (
+				results,
+			) {
+				var map = JSON.parse(results[1]);
+				var hasDep = map.sources.some(function (s) {
+					return /dep1\.js$/.test(s);
+				});
+				if (!hasDep) throw new Error("expected chunk to map to dep1.js");
+			});
+		});
+	});
+});
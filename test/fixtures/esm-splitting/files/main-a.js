@@ -0,0 +1,8 @@
+describe("esm", () => {
+	it("should load a chunk", async () => {
+		const { foo } = await import("./dep1");
+		if (foo() !== 42) {
+			throw new Error("fail");
+		}
+	});
+});
@@ -0,0 +1,15 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		files: [
+			{ pattern: "files/**/*main-*.js", watched: false },
+			{ pattern: "check/*.js", watched: false },
+		],
+		esbuild: {
+			format: "esm",
+			splitting: true,
+		},
+	});
+};
@@ -0,0 +1,26 @@
+import icon from "./icon.svg";
+
+describe("file loader", () => {
+	it("should serve assets", done => {
+		const xhr = new XMLHttpRequest();
+		xhr.open("GET", icon, true);
+		xhr.onload = () => {
+			try {
+				if (xhr.status !== 200) {
+					throw new Error(`${icon} responded with ${xhr.status}`);
+				}
+				if (xhr.getResponseHeader("Content-Type") !== "image/svg+xml") {
+					throw new Error("expected an svg content type");
+				}
+				if (!/<svg/.test(xhr.responseText)) {
+					throw new Error("expected the svg contents");
+				}
+				done();
+			} catch (e) {
+				done(e);
+			}
+		};
+		xhr.onerror = () => done(new Error("Network failure"));
+		xhr.send();
+	});
+});
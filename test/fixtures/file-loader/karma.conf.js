@@ -0,0 +1,12 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			loader: {
+				".svg": "file",
+			},
+		},
+	});
+};
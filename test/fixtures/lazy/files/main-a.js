@@ -0,0 +1,5 @@
+describe("lazy", () => {
+	it("should run main-a", () => {
+		console.log("Running main-a");
+	});
+});
@@ -0,0 +1,5 @@
+describe("lazy", () => {
+	it("should run main-b", () => {
+		console.log("Running main-b");
+	});
+});
@@ -0,0 +1,5 @@
+describe("lazy", () => {
+	it("should run main-c", () => {
+		console.log("Running main-c");
+	});
+});
@@ -0,0 +1,13 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		client: {
+			args: ["--esbuild-filter", "main-b"],
+		},
+		esbuild: {
+			lazy: true,
+		},
+	});
+};
@@ -0,0 +1,3 @@
+export function fetchUser() {
+	throw new Error("The real api must not be called");
+}
@@ -0,0 +1,16 @@
+import { fetchUser } from "./api";
+import { now } from "./clock";
+
+describe("mocks", () => {
+	it("should replace modules matching a glob", () => {
+		if (fetchUser() !== "mock user") {
+			throw new Error("fail");
+		}
+	});
+
+	it("should not apply scoped mocks to other test files", () => {
+		if (now() !== "real") {
+			throw new Error(`Unexpected clock: ${now()}`);
+		}
+	});
+});
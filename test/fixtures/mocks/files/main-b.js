@@ -0,0 +1,23 @@
+import { fetchUser } from "./api";
+import { now } from "./clock";
+import { otherNow } from "./other";
+
+describe("scoped mocks", () => {
+	it("should keep the shared mocks", () => {
+		if (fetchUser() !== "mock user") {
+			throw new Error("fail");
+		}
+	});
+
+	it("should replace modules by their path", () => {
+		if (now() !== "mock real") {
+			throw new Error(`Unexpected clock: ${now()}`);
+		}
+	});
+
+	it("should resolve relative modules against basePath", () => {
+		if (otherNow() !== "other") {
+			throw new Error(`Unexpected clock: ${otherNow()}`);
+		}
+	});
+});
@@ -0,0 +1,2 @@
+// Imports its own clock, with the same specifier as the mocked one.
+export { now as otherNow } from "./clock";
@@ -0,0 +1,20 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			mocks: {
+				"files/api.js": "mocks/api.js",
+			},
+			overrides: [
+				{
+					files: "files/main-b.js",
+					mocks: {
+						"./files/clock": "mocks/clock.js",
+					},
+				},
+			],
+		},
+	});
+};
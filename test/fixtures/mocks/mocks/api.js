@@ -0,0 +1,3 @@
+export function fetchUser() {
+	return "mock user";
+}
@@ -0,0 +1,6 @@
+// Mocks can still import the module they replace.
+import { now as realNow } from "../files/clock";
+
+export function now() {
+	return `mock ${realNow()}`;
+}
@@ -0,0 +1,7 @@
+describe("overrides a", () => {
+	it("should build with the override", () => {
+		if (FLAVOR !== "override") {
+			throw new Error(`Unexpected flavor: ${FLAVOR}`);
+		}
+	});
+});
@@ -0,0 +1,7 @@
+describe("overrides b", () => {
+	it("should build with the override", () => {
+		if (FLAVOR !== "override") {
+			throw new Error(`Unexpected flavor: ${FLAVOR}`);
+		}
+	});
+});
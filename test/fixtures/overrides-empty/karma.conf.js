@@ -0,0 +1,22 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			overrides: [
+				// Leaves no test file for the shared options.
+				{
+					files: "files/**",
+					options: {
+						define: { FLAVOR: '"override"' },
+					},
+				},
+				// Matches no test file at all.
+				{
+					files: "files/does-not-exist/**",
+				},
+			],
+		},
+	});
+};
@@ -0,0 +1,9 @@
+describe("legacy", () => {
+	it("should merge the override's options", () => {
+		if (FLAVOR !== "legacy" || SHARED !== "shared") {
+			throw new Error(
+				`expected legacy and shared, got ${FLAVOR} and ${SHARED}`,
+			);
+		}
+	});
+});
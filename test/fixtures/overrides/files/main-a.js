@@ -0,0 +1,7 @@
+describe("modern", () => {
+	it("should use the shared options", () => {
+		if (FLAVOR !== "modern") {
+			throw new Error(`expected modern, got ${FLAVOR}`);
+		}
+	});
+});
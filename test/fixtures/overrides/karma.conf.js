@@ -0,0 +1,21 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			define: {
+				FLAVOR: '"modern"',
+				SHARED: '"shared"',
+			},
+			overrides: [
+				{
+					files: "files/legacy/**",
+					options: {
+						define: { FLAVOR: '"legacy"' },
+					},
+				},
+			],
+		},
+	});
+};
@@ -0,0 +1,19 @@
+import { increment } from "./counter";
+import { fetchPolyfill } from "../../../fetch-polyfill.js";
+
+describe("per-file a", () => {
+	it("should not share module state", () => {
+		if (increment() !== 1) {
+			throw new Error("fail");
+		}
+	});
+
+	it("should serve its own sourcemap", async () => {
+		const script = document.querySelector('script[src*="main-a.js"]');
+		const url = script.src.replace(/[?#].+/, "") + ".map";
+		const resp = await fetchPolyfill(url);
+		if (resp.status >= 400) {
+			throw resp.status;
+		}
+	});
+});
@@ -0,0 +1,9 @@
+import { increment } from "./counter";
+
+describe("per-file b", () => {
+	it("should not share module state", () => {
+		if (increment() !== 1) {
+			throw new Error("fail");
+		}
+	});
+});
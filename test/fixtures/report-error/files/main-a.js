@@ -0,0 +1,3 @@
+describe("report-error", () => {
+	it("should run the tests", () => {});
+});
@@ -0,0 +1,12 @@
+const os = require("os");
+const path = require("path");
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			report: path.join(os.tmpdir(), "karma-esbuild-report"),
+		},
+	});
+};
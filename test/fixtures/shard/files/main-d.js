@@ -0,0 +1,5 @@
+describe("shard", () => {
+	it("should run main-d", () => {
+		return true;
+	});
+});
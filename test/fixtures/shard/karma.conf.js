@@ -0,0 +1,14 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			shard: {
+				index: 2,
+				total: 2,
+				timings: "timings.json",
+			},
+		},
+	});
+};
@@ -4,7 +4,7 @@ import expectedSources from "env";
 
 describe("simple", () => {
 	it("should work", async () => {
-		const script = document.querySelector('script[src*="-bundle.js"]');
+		const script = document.querySelector('script[src*="/bundle.js"]');
 		const { pathname } = new URL(script.src);
 		const js = await fetchPolyfill(script.src).then(res => res.text());
 
@@ -23,7 +23,10 @@ describe("simple", () => {
 		const mapText = await fetchPolyfill(`${pathname}.map`).then(res =>
 			res.text(),
 		);
-		const sources = JSON.parse(mapText).sources.sort();
+		// The entry point and the "env" module come from plugin namespaces.
+		const sources = JSON.parse(mapText)
+			.sources.filter(s => !/^[\w-]{2,}:/.test(s))
+			.sort();
 
 		if (sources.length !== expectedSources.length) {
 			throw new Error(
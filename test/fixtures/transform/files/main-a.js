@@ -0,0 +1,22 @@
+describe("transform", () => {
+	it("should run the transformed script before the bundle", () => {
+		if (!window.SETUP || window.SETUP.answer !== 42) {
+			throw new Error("The setup script didn't run");
+		}
+	});
+
+	it("should use the JSX factory of tsconfig.json", () => {
+		if (!window.ELEMENT || window.ELEMENT.tag !== "div") {
+			throw new Error("The JSX factory wasn't used");
+		}
+	});
+
+	it("should keep the script in place", () => {
+		const scripts = Array.from(document.querySelectorAll("script[src]"));
+		const setup = scripts.findIndex(s => /setup\/globals\.ts/.test(s.src));
+		const bundle = scripts.findIndex(s => /\/bundle\.js/.test(s.src));
+		if (setup === -1 || setup > bundle) {
+			throw new Error("The setup script isn't loaded before the bundle");
+		}
+	});
+});
@@ -0,0 +1,21 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		files: [
+			{ pattern: "setup/globals.ts", watched: false },
+			{ pattern: "setup/element.tsx", watched: false },
+			...baseConfig.files,
+		],
+		preprocessors: {
+			...baseConfig.preprocessors,
+			"setup/**/*.{ts,tsx}": ["esbuild-transform"],
+		},
+		esbuild: {
+			define: {
+				__ANSWER__: "42",
+			},
+		},
+	});
+};
@@ -0,0 +1,6 @@
+// The JSX factory is only configured in tsconfig.json.
+function h(tag: string) {
+	return { tag };
+}
+
+(window as any).ELEMENT = <div />;
@@ -0,0 +1,7 @@
+// A classic script: its globals are set before the bundle runs.
+interface Setup {
+	answer: number;
+}
+
+const setup: Setup = { answer: __ANSWER__ };
+(window as any).SETUP = setup;
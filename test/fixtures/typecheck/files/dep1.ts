@@ -0,0 +1,3 @@
+export function foo(): number {
+	return 42;
+}
@@ -0,0 +1,10 @@
+import { foo } from "./dep1";
+
+describe("typecheck", () => {
+	it("should run despite type errors", () => {
+		const value: string = foo();
+		if (String(value) !== "42") {
+			throw new Error("fail");
+		}
+	});
+});
@@ -0,0 +1,11 @@
+import { fetchPolyfill } from "../../../fetch-polyfill.js";
+
+describe("validate", () => {
+	it("should inline the source map", async () => {
+		const script = document.querySelector('script[src*="/bundle.js"]');
+		const js = await fetchPolyfill(script.src).then(res => res.text());
+		if (!/\/\/# sourceMappingURL=data:application\/json;base64,/.test(js)) {
+			throw new Error("The source map isn't inlined");
+		}
+	});
+});
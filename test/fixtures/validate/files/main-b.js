@@ -0,0 +1,3 @@
+describe("validate", () => {
+	it("should ignore the overridden options of an override", () => {});
+});
@@ -0,0 +1,27 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			bundleDelay: "100",
+			bundle: false,
+			// Every build overrides these, so they must not reach esbuild.
+			entryPoints: ["files/main-a.js"],
+			stdin: { contents: "" },
+			write: true,
+			incremental: true,
+			watch: true,
+			outdir: "dist",
+			outfile: "dist/bundle.js",
+			sourcemap: "inline",
+			frobnicate: true,
+			overrides: [
+				{
+					files: "files/main-b.js",
+					options: { outfile: "dist/bundle-b.js", incremental: true },
+				},
+			],
+		},
+	});
+};
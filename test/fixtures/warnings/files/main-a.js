@@ -0,0 +1,9 @@
+const options = { retries: 1, retries: 2 };
+
+describe("warnings", () => {
+	it("should not run", () => {
+		if (options.retries !== 2) {
+			throw new Error("fail");
+		}
+	});
+});
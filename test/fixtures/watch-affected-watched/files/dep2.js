@@ -0,0 +1,3 @@
+export function bar() {
+	return 42;
+}
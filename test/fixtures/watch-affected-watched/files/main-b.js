@@ -0,0 +1,9 @@
+import { bar } from "./dep2";
+
+describe("affected b", () => {
+	it("should work", () => {
+		if (bar() !== 42) {
+			throw new Error("fail");
+		}
+	});
+});
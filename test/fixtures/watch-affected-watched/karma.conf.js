@@ -0,0 +1,12 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		// Karma watches the test files itself.
+		files: [{ pattern: "files/**/*main-*.js", watched: true }],
+		esbuild: {
+			affectedOnly: true,
+		},
+	});
+};
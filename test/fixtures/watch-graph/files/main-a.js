@@ -0,0 +1,9 @@
+import { foo } from "../shared/dep1";
+
+describe("watch graph", () => {
+	it("should work", () => {
+		if (foo() !== 42) {
+			throw new Error("fail");
+		}
+	});
+});
@@ -0,0 +1,14 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		// The shared package lives outside of basePath, like a linked
+		// workspace package in a monorepo.
+		basePath: "files",
+		files: [{ pattern: "**/*main-*.js", watched: false }],
+		preprocessors: {
+			"**/*.js": ["esbuild"],
+		},
+	});
+};
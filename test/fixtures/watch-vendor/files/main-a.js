@@ -0,0 +1,9 @@
+import balanced from "balanced-match";
+
+describe("watch vendor", () => {
+	it("should load the packages from the vendor bundle", () => {
+		if (balanced("{", "}", "a{b}c").body !== "b") {
+			throw new Error("fail");
+		}
+	});
+});
@@ -0,0 +1,18 @@
+import { fetchPolyfill } from "../../../fetch-polyfill.js";
+
+// jsdom can't run workers, so this stands in for the constructor.
+class Worker {
+	constructor(url) {
+		this.url = url;
+	}
+}
+
+describe("workers", () => {
+	it("should serve the worker of a cached build", async () => {
+		const { url } = new Worker(new URL("./worker.ts", import.meta.url));
+		const res = await fetchPolyfill(url.href);
+		if (res.status !== 200 || !/a \+ b/.test(await res.text())) {
+			throw new Error(`The worker wasn't served (${res.status})`);
+		}
+	});
+});
@@ -0,0 +1,5 @@
+import { add } from "./math";
+
+self.onmessage = (event: MessageEvent<number>) => {
+	self.postMessage(add(event.data, 22));
+};
@@ -0,0 +1,47 @@
+import { fetchPolyfill } from "../../../fetch-polyfill.js";
+
+// jsdom can't run workers, so this stands in for the constructor.
+class Worker {
+	constructor(url) {
+		this.url = url;
+	}
+}
+
+const h = tag => ({ tag });
+
+describe("workers", () => {
+	it("should load the file with the configured loader", () => {
+		if ((<div />).tag !== "div") {
+			throw new Error("JSX wasn't compiled");
+		}
+	});
+
+	it("should serve the bundled worker", async () => {
+		const { url } = new Worker(new URL("./worker.ts", import.meta.url));
+		const js = await fetchPolyfill(url.href).then(res => res.text());
+		if (!/a \+ b/.test(js)) {
+			throw new Error("The worker's imports weren't bundled");
+		}
+
+		const m = js.match(/\/\/# sourceMappingURL=(.*)$/);
+		if (!m) {
+			throw new Error("Unable to find source map url");
+		}
+		const map = await fetchPolyfill(new URL(m[1], url).href).then(res =>
+			res.text(),
+		);
+		const { sources } = JSON.parse(map);
+		if (!sources.some(s => s.endsWith("/workers/files/math.ts"))) {
+			throw new Error(`Unexpected sources: ${sources}`);
+		}
+	});
+
+	it("should only serve the workers that tests start", async () => {
+		// Next to the worker, but only imported by it.
+		const { url } = new Worker(new URL("./worker.ts", import.meta.url));
+		const { status } = await fetchPolyfill(new URL("math.ts", url).href);
+		if (status !== 404) {
+			throw new Error(`Served a file that isn't a worker (${status})`);
+		}
+	});
+});
@@ -0,0 +1,13 @@
+const { baseConfig } = require("../../base.karma.conf");
+
+module.exports = function (config) {
+	config.set({
+		...baseConfig,
+		esbuild: {
+			workers: true,
+			// The test file that starts the worker uses JSX.
+			loader: { ".js": "jsx" },
+			jsxFactory: "h",
+		},
+	});
+};
@@ -0,0 +1,17 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description =
+	"Only run the lazily imported test files matching the filter";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "lazy");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+	if (!output.stdout.some(line => /Running main-b/.test(line))) {
+		throw new Error("Expected main-b to run");
+	}
+	if (output.stdout.some(line => /Running main-[ac]/.test(line))) {
+		throw new Error("Expected only main-b to run");
+	}
+}
@@ -0,0 +1,10 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Replace modules with mocks";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "mocks");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /5 tests completed/.test(line));
+	});
+}
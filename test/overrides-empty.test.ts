@@ -0,0 +1,10 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Build the bundles of groups without test files";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "overrides-empty");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /2 tests completed/.test(line));
+	});
+}
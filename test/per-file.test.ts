@@ -0,0 +1,10 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Build each test file as its own bundle";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "per-file");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /3 tests completed/.test(line));
+	});
+}
@@ -0,0 +1,49 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { strict as assert } from "assert";
+
+function get(url: string) {
+	return new Promise<string>((resolve, reject) => {
+		http
+			.get(url, res => {
+				let body = "";
+				res.on("data", chunk => (body += chunk));
+				res.on("end", () => resolve(body));
+			})
+			.on("error", reject);
+	});
+}
+
+export const description = "Report the composition of the bundle";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "report");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	const dir = path.join(os.tmpdir(), "karma-esbuild-report");
+	const summary = await fs.readFile(
+		path.join(dir, "bundle.report.txt"),
+		"utf-8",
+	);
+	assert.match(summary, /Total output size: /);
+	assert.match(summary, /Largest inputs:/);
+	assert.match(summary, /\d+ B {2}files[/\\]dep1\.js/);
+
+	const metafile = JSON.parse(
+		await fs.readFile(path.join(dir, "bundle.metafile.json"), "utf-8"),
+	);
+	assert.ok(
+		Object.keys(metafile.inputs).some(input => /dep1\.js$/.test(input)),
+	);
+
+	const line = output.stdout.find(line => /server started at/.test(line))!;
+	const url = /server started at (\S+)/.exec(line)![1];
+	assert.equal(await get(`${url}esbuild/report`), summary);
+	// Only the report's own URL is answered with it.
+	assert.notEqual(await get(`${url}base/esbuild/report`), summary);
+}
@@ -0,0 +1,17 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { strict as assert } from "assert";
+
+export const description = "Only run this shard's test files";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "shard");
+
+	// main-a.js takes longer than the others together, so it is the only test
+	// file of the first shard.
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /3 tests completed/.test(line));
+	});
+
+	const stdout = output.stdout.join("");
+	assert.match(stdout, /Running shard 2 of 2/);
+	assert.doesNotMatch(stdout, /should run main-a/);
+}
@@ -23,6 +23,9 @@ export async function runKarma(
 		{
 			stdio: options.inherit ? "inherit" : undefined,
 			shell: true,
+			// Karma runs in a child of the shell, so the whole process group
+			// has to be killed.
+			detached: !options.inherit,
 		},
 	);
 
@@ -39,7 +42,11 @@ export async function runKarma(
 		});
 
 		onTeardown(config, () => {
-			child.kill();
+			try {
+				process.kill(-child.pid!);
+			} catch {
+				// Karma already exited.
+			}
 		});
 
 		await assertEventuallyProgresses(
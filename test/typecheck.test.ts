@@ -0,0 +1,32 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { assertEventually } from "pentf/assert_utils";
+
+export const description = "Report type errors next to the test run";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "typecheck");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	// The compiler doesn't print anything while it checks, which can take a
+	// while when other tests run at the same time.
+	await assertEventually(
+		() => {
+			return output.stdout.some(line =>
+				/files[/\\]main-a\.ts:5:9: error TS2322: Type 'number' is not assignable to type 'string'/.test(
+					line,
+				),
+			);
+		},
+		{ timeout: 60_000 },
+	);
+	await assertEventually(
+		() => {
+			return output.stdout.some(line =>
+				/Type checking found 1 error/.test(line),
+			);
+		},
+		{ timeout: 60_000 },
+	);
+}
@@ -0,0 +1,23 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Validate the esbuild options";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "validate");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /2 tests completed/.test(line));
+	});
+
+	const expected = [
+		/Option "esbuild\.bundleDelay" must be a number/,
+		/Option "esbuild\.bundle" is ignored, because the test files are always bundled/,
+		/Option "esbuild\.outfile" is ignored, because the bundles are served next to the test files/,
+		/Option "esbuild\.overrides\[0\]\.options\.incremental" is ignored/,
+		/Unknown option "esbuild\.frobnicate"/,
+	];
+	for (const pattern of expected) {
+		await assertEventuallyProgresses(output.stdout, () => {
+			return output.stdout.some(line => pattern.test(line));
+		});
+	}
+}
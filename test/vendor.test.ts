@@ -0,0 +1,13 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Load the packages from a vendor bundle";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "vendor");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /Compiling 2 packages to/.test(line));
+	});
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /4 tests completed/.test(line));
+	});
+}
@@ -0,0 +1,16 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Log esbuild warnings and fail the build on them";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "warnings");
+
+	const expected = [
+		/files\/main-a\.js:1:\d+: warning: Duplicate key "retries"/,
+		/Build failed with 1 warning \(failOnWarning\)/,
+	];
+	for (const pattern of expected) {
+		await assertEventuallyProgresses(output.stdout, () => {
+			return output.stdout.some(line => pattern.test(line));
+		});
+	}
+}
@@ -0,0 +1,56 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import path from "path";
+import { onTeardown } from "pentf/runner";
+import { strict as assert } from "assert";
+
+export const description =
+	"Run changed test files that Karma watches itself, when only running affected tests";
+export async function run(config: any) {
+	const { output, resetLog } = await runKarma(config, "watch-affected-watched");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /2 tests completed/.test(line));
+	});
+
+	const dir = path.join(
+		__dirname,
+		"fixtures",
+		"watch-affected-watched",
+		"files",
+	);
+	const dep = path.join(dir, "dep1.js");
+	const test = path.join(dir, "main-b.js");
+	const depContent = await fs.readFile(dep, "utf-8");
+	const testContent = await fs.readFile(test, "utf-8");
+
+	onTeardown(config, async () => {
+		await fs.writeFile(dep, depContent, "utf-8");
+		await fs.writeFile(test, testContent, "utf-8");
+	});
+
+	resetLog();
+	await fs.writeFile(dep, `export function foo() { return 43 - 1 }`, "utf-8");
+	await assertEventuallyProgresses(output.stdout, () => {
+		return (
+			output.stdout.some(line =>
+				/\[esbuild\]: Running 1 affected test file/.test(line),
+			) && output.stdout.some(line => /1 test completed/.test(line))
+		);
+	});
+
+	// The changed test file runs, even though it doesn't import dep1.js.
+	resetLog();
+	await fs.writeFile(
+		test,
+		testContent.replace("bar() !== 42", "bar() !== 43"),
+		"utf-8",
+	);
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test failed/.test(line));
+	});
+	assert.ok(
+		!output.stdout.some(line => /test completed/.test(line)),
+		"Only the changed test file should run",
+	);
+}
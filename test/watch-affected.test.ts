@@ -0,0 +1,50 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import path from "path";
+import { onTeardown } from "pentf/runner";
+import { strict as assert } from "assert";
+
+export const description = "Only run test files affected by a change";
+export async function run(config: any) {
+	const { output, resetLog } = await runKarma(config, "watch-affected");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /2 tests completed/.test(line));
+	});
+
+	const filePath = path.join(
+		__dirname,
+		"fixtures",
+		"watch-affected",
+		"files",
+		"dep1.js",
+	);
+
+	const content = await fs.readFile(filePath, "utf-8");
+	const write = (content: string) => fs.writeFile(filePath, content, "utf-8");
+
+	onTeardown(config, async () => {
+		await write(content);
+	});
+
+	resetLog();
+	await write(`export function foo() { return 2 }`);
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return (
+			output.stdout.some(line =>
+				/\[esbuild\]: Running 1 affected test file/.test(line),
+			) && output.stdout.some(line => /1 test failed/.test(line))
+		);
+	});
+	assert.ok(
+		!output.stdout.some(line => /test completed/.test(line)),
+		"Only the test file importing dep1.js should run",
+	);
+
+	resetLog();
+	await write(content);
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+}
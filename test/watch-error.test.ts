@@ -34,6 +34,16 @@ export async function run(config: any) {
 			/\[esbuild\]: Build failed with/.test(line),
 		);
 	});
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line =>
+			/files[/\\]dep1\.js:1:15: error: .*\n.*1 │ export function;;;/.test(line),
+		);
+	});
+
+	// The failed build should fail the run in the browser, too.
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /Error: Build failed with/.test(line));
+	});
 
 	resetLog();
 	await write(content);
@@ -0,0 +1,52 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import path from "path";
+import { onTeardown } from "pentf/runner";
+import { strict as assert } from "assert";
+
+export const description = "Watch the files imported by the tests";
+export async function run(config: any) {
+	const { output, resetLog } = await runKarma(config, "watch-graph");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	const fixture = path.join(__dirname, "fixtures", "watch-graph");
+	const depPath = path.join(fixture, "shared", "dep1.js");
+	const unrelatedPath = path.join(fixture, "files", "unrelated.js");
+
+	const [depContent, unrelatedContent] = await Promise.all([
+		fs.readFile(depPath, "utf-8"),
+		fs.readFile(unrelatedPath, "utf-8"),
+	]);
+	const write = (filePath: string, content: string) =>
+		fs.writeFile(filePath, content, "utf-8");
+
+	onTeardown(config, async () => {
+		await write(depPath, depContent);
+		await write(unrelatedPath, unrelatedContent);
+	});
+
+	// Files outside of basePath are watched when the tests import them.
+	resetLog();
+	await write(depPath, `export function foo() { return 2 }`);
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test failed/.test(line));
+	});
+
+	resetLog();
+	await write(depPath, depContent);
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	// Files that no test imports don't trigger a rebuild.
+	resetLog();
+	await write(unrelatedPath, `export const unrelated = false;`);
+	await new Promise(resolve => setTimeout(resolve, 2000));
+	assert.ok(
+		!output.stdout.some(line => /\[esbuild\]: Compiling/.test(line)),
+		"Unrelated files should not trigger a rebuild",
+	);
+}
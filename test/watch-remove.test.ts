@@ -0,0 +1,47 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import path from "path";
+import { onTeardown } from "pentf/runner";
+
+export const description =
+	"Unregister deleted and renamed entry files on watch";
+export async function run(config: any) {
+	const { output, resetLog } = await runKarma(config, "watch-remove");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	const dir = path.join(__dirname, "fixtures", "watch-remove", "files");
+	const fileB = path.join(dir, "main-b.js");
+	const fileC = path.join(dir, "main-c.js");
+
+	onTeardown(config, async () => {
+		await fs.unlink(fileB).catch(() => {});
+		await fs.unlink(fileC).catch(() => {});
+	});
+
+	resetLog();
+	await fs.writeFile(fileB, `it('bar', () => {})`, "utf-8");
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /2 tests completed/.test(line));
+	});
+
+	// Rename the new test file
+	resetLog();
+	await fs.rename(fileB, fileC);
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /2 tests completed/.test(line));
+	});
+
+	// Delete it
+	resetLog();
+	await fs.unlink(fileC);
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	if (output.stdout.some(line => /Could not resolve/.test(line))) {
+		throw new Error("Deleted test file is still imported");
+	}
+}
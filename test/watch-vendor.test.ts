@@ -0,0 +1,47 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import path from "path";
+import { onTeardown } from "pentf/runner";
+import { strict as assert } from "assert";
+
+export const description =
+	"Rebuild the vendor bundle when a test file that Karma watches imports a new package";
+export async function run(config: any) {
+	const { output, resetLog } = await runKarma(config, "watch-vendor");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	const test = path.join(
+		__dirname,
+		"fixtures",
+		"watch-vendor",
+		"files",
+		"main-a.js",
+	);
+	const content = await fs.readFile(test, "utf-8");
+	onTeardown(config, async () => {
+		await fs.writeFile(test, content, "utf-8");
+	});
+
+	resetLog();
+	await fs.writeFile(
+		test,
+		`import { nanoid } from "nanoid/non-secure";\n` +
+			content.replace(
+				`balanced("{", "}", "a{b}c").body !== "b"`,
+				"nanoid(8).length !== 8",
+			),
+		"utf-8",
+	);
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /Compiling 2 packages to/.test(line));
+	});
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /1 test completed/.test(line));
+	});
+	assert.ok(
+		!output.stdout.some(line => /missing from the vendor bundle/.test(line)),
+	);
+}
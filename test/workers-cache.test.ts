@@ -0,0 +1,27 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { strict as assert } from "assert";
+
+export const description = "Serve the workers of builds from the cache";
+export async function run(config: any) {
+	await fs
+		.rmdir(path.join(os.tmpdir(), "karma-esbuild-workers-cache"), {
+			recursive: true,
+		})
+		.catch(() => {});
+
+	const first = await runKarma(config, "workers-cache");
+	await assertEventuallyProgresses(first.output.stdout, () => {
+		return first.output.stdout.some(line => /1 test completed/.test(line));
+	});
+
+	const second = await runKarma(config, "workers-cache");
+	await assertEventuallyProgresses(second.output.stdout, () => {
+		return second.output.stdout.some(line => /1 test completed/.test(line));
+	});
+	assert.ok(
+		second.output.stdout.some(line => /Reusing the cached build/.test(line)),
+	);
+}
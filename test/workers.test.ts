@@ -0,0 +1,15 @@
+import { assertEventuallyProgresses, runKarma } from "./test-utils";
+
+export const description = "Bundle and serve Web Workers started by tests";
+export async function run(config: any) {
+	const { output } = await runKarma(config, "workers");
+
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line =>
+			/Compiling worker .*worker\.ts done/.test(line),
+		);
+	});
+	await assertEventuallyProgresses(output.stdout, () => {
+		return output.stdout.some(line => /3 tests completed/.test(line));
+	});
+}